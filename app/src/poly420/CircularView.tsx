@@ -0,0 +1,138 @@
+import {
+  beatFraction,
+  spanRepeats,
+  type Step,
+  type TrackSpan,
+} from "./transport";
+
+type RingTrack = {
+  id: string;
+  beatsPerCycle: number;
+  pattern: Step[];
+  volume: number;
+  span?: TrackSpan | null;
+};
+
+const SIZE = 240;
+const CENTER = SIZE / 2;
+const OUTER_RADIUS = 108;
+const INNER_RADIUS = 36;
+// Louder steps get bigger dots
+const DOT_RADIUS: Record<Step, number> = {
+  off: 4.5,
+  soft: 3.5,
+  on: 4.5,
+  accent: 6,
+};
+
+// The cycle starts at twelve o'clock and runs clockwise, like the playhead
+const beatPoint = (radius: number, fraction: number) => {
+  const angle = fraction * 2 * Math.PI - Math.PI / 2;
+  return {
+    x: CENTER + radius * Math.cos(angle),
+    y: CENTER + radius * Math.sin(angle),
+  };
+};
+
+// Every track as a ring of beat dots joined into a polygon, first track
+// outermost. The playhead and the dot flashes are driven purely by
+// --cycle-progress, so they follow the same clock as the linear meters. In a
+// polymeter each ring is a loop of its own, so there's no shared playhead.
+export default function CircularView({
+  tracks,
+  polymeter,
+  onToggleStep,
+}: {
+  tracks: RingTrack[];
+  polymeter: boolean;
+  onToggleStep: (id: string, beat: number) => void;
+}) {
+  const spacing =
+    tracks.length > 1 ? (OUTER_RADIUS - INNER_RADIUS) / (tracks.length - 1) : 0;
+
+  return (
+    <svg
+      className="circular-view"
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      role="group"
+      aria-label="Circular view"
+    >
+      {tracks.map((ringTrack, trackIndex) => {
+        const track = polymeter ? { ...ringTrack, span: null } : ringTrack;
+        const radius = OUTER_RADIUS - trackIndex * spacing;
+        const beats = spanRepeats(track) * track.beatsPerCycle;
+        // A subdividing track repeats its pattern once per parent beat
+        const steps = Array.from(
+          { length: beats },
+          (_, index) => track.pattern[index % track.beatsPerCycle]
+        );
+        const points = steps.map((_, index) =>
+          beatPoint(
+            radius,
+            beatFraction(
+              track,
+              index % track.beatsPerCycle,
+              Math.floor(index / track.beatsPerCycle)
+            )
+          )
+        );
+        const sounding = points.filter((_, index) => steps[index] !== "off");
+        const span = track.span;
+
+        return (
+          <g
+            key={track.id}
+            className={`ring ${track.volume > 0 ? "" : "silent"}`}
+            style={{
+              ...(span && {
+                ["--span-start" as string]: (span.from / span.of).toString(),
+                ["--span-length" as string]: (span.length / span.of).toString(),
+              }),
+              ...(polymeter && {
+                ["--cycle-progress" as string]: `var(--progress-${track.id}, 0)`,
+              }),
+            }}
+          >
+            <circle className="ring-path" cx={CENTER} cy={CENTER} r={radius} />
+            {sounding.length > 2 && (
+              <polygon
+                className="ring-shape"
+                points={sounding.map(({ x, y }) => `${x},${y}`).join(" ")}
+              />
+            )}
+            {points.map(({ x, y }, index) => {
+              const beat = index % track.beatsPerCycle;
+              return (
+                <circle
+                  key={index}
+                  className={`ring-dot step-${steps[index]}`}
+                  cx={x}
+                  cy={y}
+                  r={DOT_RADIUS[steps[index]]}
+                  onClick={() => onToggleStep(track.id, beat)}
+                  style={{
+                    ["--index" as string]: index.toString(),
+                    ["--beats" as string]: beats.toString(),
+                  }}
+                >
+                  <title>{`Track ${trackIndex + 1}, step ${beat + 1}: ${
+                    steps[index]
+                  }`}</title>
+                </circle>
+              );
+            })}
+          </g>
+        );
+      })}
+      {!polymeter && (
+        <line
+          className="playhead"
+          x1={CENTER}
+          y1={CENTER}
+          x2={CENTER}
+          y2={CENTER - OUTER_RADIUS - 8}
+        />
+      )}
+    </svg>
+  );
+}
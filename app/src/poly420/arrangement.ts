@@ -0,0 +1,58 @@
+// Arrangements: sections played back to back, each for `repeats` cycles, with
+// the whole arrangement looping. Counting is in cycles since the run started.
+
+export type ArrangementSection = {
+  repeats: number;
+};
+
+export type SectionPosition = {
+  index: number;
+  // Cycle within the section, from 0
+  cycle: number;
+  // Cycles into the current pass through the arrangement
+  elapsed: number;
+  total: number;
+};
+
+const sectionRepeats = (section: ArrangementSection) =>
+  Math.max(1, Math.round(section.repeats));
+
+export function arrangementLength(sections: ArrangementSection[]) {
+  return sections.reduce((sum, section) => sum + sectionRepeats(section), 0);
+}
+
+// Where the `elapsed`-th cycle of the run falls, or null for no sections
+export function sectionAt(
+  sections: ArrangementSection[],
+  elapsed: number
+): SectionPosition | null {
+  const total = arrangementLength(sections);
+  if (total === 0) return null;
+  const inPass = ((elapsed % total) + total) % total;
+  let offset = inPass;
+  for (let index = 0; index < sections.length; index += 1) {
+    const repeats = sectionRepeats(sections[index]);
+    if (offset < repeats) {
+      return { index, cycle: offset, elapsed: inPass, total };
+    }
+    offset -= repeats;
+  }
+  return null;
+}
+
+// The scheduler gives each section its own copy of a track under this id
+export const sectionTrackId = (index: number, id: string) => `s${index}-${id}`;
+
+// Track `id` as scheduled in the `elapsed`-th cycle of the run, if it plays
+export function trackInSection<T extends { id: string }>(
+  sections: (ArrangementSection & { tracks: T[] })[],
+  elapsed: number,
+  id: string
+): T | null {
+  const position = sectionAt(sections, elapsed);
+  if (!position) return null;
+  const wanted = sectionTrackId(position.index, id);
+  return (
+    sections[position.index].tracks.find((track) => track.id === wanted) ?? null
+  );
+}
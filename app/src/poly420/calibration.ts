@@ -0,0 +1,50 @@
+// Output latency calibration: the user taps along to a steady click and the
+// median tap error becomes the offset between when a click is scheduled and
+// when it is heard. Offsets are kept per audio engine in localStorage.
+
+export type AudioEngine = "webaudio" | "html";
+
+export type LatencyOffsets = Partial<Record<AudioEngine, number>>;
+
+const STORAGE_KEY = "poly420.latency";
+
+// Taps collected per calibration run; the first few are ignored while the
+// player locks on to the click
+export const CALIBRATION_TAPS = 16;
+export const CALIBRATION_WARMUP = 4;
+// Anything beyond this is a misread, not latency
+export const MAX_LATENCY_OFFSET = 0.5;
+
+// Median error of the settled taps, or null if there are too few to trust
+export function latencyFromErrors(errors: number[]): number | null {
+  const settled = errors.slice(CALIBRATION_WARMUP).sort((a, b) => a - b);
+  if (settled.length < CALIBRATION_TAPS - CALIBRATION_WARMUP) return null;
+  const mid = Math.floor(settled.length / 2);
+  const median =
+    settled.length % 2 ? settled[mid] : (settled[mid - 1] + settled[mid]) / 2;
+  return Math.max(-MAX_LATENCY_OFFSET, Math.min(MAX_LATENCY_OFFSET, median));
+}
+
+export function loadLatencyOffsets(): LatencyOffsets {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    const offsets: LatencyOffsets = {};
+    (["webaudio", "html"] as const).forEach((engine) => {
+      const value = stored?.[engine];
+      if (typeof value === "number" && Number.isFinite(value)) {
+        offsets[engine] = value;
+      }
+    });
+    return offsets;
+  } catch {
+    return {};
+  }
+}
+
+export function saveLatencyOffsets(offsets: LatencyOffsets) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(offsets));
+  } catch {
+    // Private mode or storage full; the offset still applies this session
+  }
+}
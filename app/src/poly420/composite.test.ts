@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { compositeGrid, compositePattern, gridSteps } from "./composite";
+import type { TransportTrack } from "./transport";
+
+const track = (id: string, beats: number): TransportTrack => ({
+  id,
+  beatsPerCycle: beats,
+  pattern: Array.from({ length: beats }, (_, beat) =>
+    beat === 0 ? "accent" : "on"
+  ),
+});
+
+describe("compositeGrid", () => {
+  it("lays 3 against 2 on six steps", () => {
+    const grid = compositeGrid([track("a", 3), track("b", 2)], 64);
+    expect(grid?.steps).toBe(6);
+    expect(grid?.onsets.map((onset) => [onset.step, onset.gap])).toEqual([
+      [0, 2],
+      [2, 1],
+      [3, 1],
+      [4, 2],
+    ]);
+    expect(grid && compositePattern(grid)).toEqual([
+      "accent",
+      "off",
+      "on",
+      "on",
+      "on",
+      "off",
+    ]);
+  });
+
+  it("gives up on grids finer than the cap", () => {
+    const dense = [59, 61, 63, 64].map((beats) => track(`t${beats}`, beats));
+    expect(gridSteps(dense)).toBe(14_511_168);
+    expect(compositeGrid(dense, 1024)).toBeNull();
+  });
+});
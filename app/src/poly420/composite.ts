@@ -0,0 +1,112 @@
+// The composite rhythm: every track's sounding steps laid on one grid of
+// LCM(beatsPerCycle) steps per cycle (finer when tracks cover part of it).
+
+import {
+  STEP_LEVELS,
+  spanRepeats,
+  type Step,
+  type TransportTrack,
+} from "./transport";
+
+export type CompositeOnset = {
+  step: number;
+  trackIds: string[];
+  // The loudest step landing here
+  level: Step;
+  // Grid steps until the next onset, wrapping into the next cycle
+  gap: number;
+};
+
+export type CompositeGrid = {
+  steps: number;
+  // Per track, whether it sounds on each grid step
+  lanes: { id: string; hits: boolean[] }[];
+  onsets: CompositeOnset[];
+};
+
+// Syllables per composite onset, keyed by beats per cycle, largest first
+const MNEMONICS: Record<string, string[]> = {
+  "3:2": ["not", "dif", "fi", "cult"],
+  "4:3": ["pass", "the", "gol", "den", "but", "ter"],
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Steps per cycle of the finest grid the track's beats all fall on
+const trackSteps = (track: TransportTrack) =>
+  (track.span?.of ?? 1) * spanRepeats(track) * track.beatsPerCycle;
+
+export function gridSteps(tracks: TransportTrack[]) {
+  return tracks.reduce(
+    (acc, track) => (acc / gcd(acc, trackSteps(track))) * trackSteps(track),
+    1
+  );
+}
+
+// Swing is left out: the grid shows the straight beats. Null when the grid
+// would be finer than `maxSteps`, before anything is allocated.
+export function compositeGrid(
+  tracks: TransportTrack[],
+  maxSteps: number
+): CompositeGrid | null {
+  const steps = gridSteps(tracks);
+  if (steps > maxSteps) return null;
+  const loudest = new Map<number, number>();
+  const lanes = tracks.map((track) => {
+    const hits = Array.from({ length: steps }, () => false);
+    const beats = track.beatsPerCycle;
+    const repeats = spanRepeats(track);
+    const { from, length } = track.span ?? { from: 0, length: 1 };
+    const stride = steps / trackSteps(track);
+    for (let index = 0; index < repeats * beats; index += 1) {
+      const step: Step = track.pattern[index % beats] ?? "on";
+      if (step === "off") continue;
+      const at = (from * repeats * beats + length * index) * stride;
+      hits[at] = true;
+      const level = STEP_LEVELS.indexOf(step);
+      loudest.set(at, Math.max(loudest.get(at) ?? 0, level));
+    }
+    return { id: track.id, hits };
+  });
+
+  const onsets: CompositeOnset[] = [];
+  for (let step = 0; step < steps; step += 1) {
+    const hitting = tracks.filter((_, index) => lanes[index].hits[step]);
+    if (hitting.length === 0) continue;
+    onsets.push({
+      step,
+      trackIds: hitting.map((track) => track.id),
+      level: STEP_LEVELS[loudest.get(step) ?? 0],
+      gap: 0,
+    });
+  }
+  onsets.forEach((onset, index) => {
+    const next = onsets[(index + 1) % onsets.length];
+    onset.gap = (next.step - onset.step + steps) % steps || steps;
+  });
+
+  return { steps, lanes, onsets };
+}
+
+// The composite as a single track's pattern on the grid
+export function compositePattern(grid: CompositeGrid): Step[] {
+  const pattern: Step[] = Array.from({ length: grid.steps }, () => "off");
+  grid.onsets.forEach((onset) => {
+    pattern[onset.step] = onset.level;
+  });
+  return pattern;
+}
+
+// Spoken syllables for a known ratio, one per onset, or null
+export function mnemonicFor(tracks: TransportTrack[], grid: CompositeGrid) {
+  if (tracks.some((track) => track.span)) return null;
+  const key = tracks
+    .map((track) => track.beatsPerCycle)
+    .sort((a, b) => b - a)
+    .join(":");
+  const syllables = MNEMONICS[key];
+  // Only fits when every beat sounds, i.e. the onsets are the textbook ones
+  return syllables && syllables.length === grid.onsets.length
+    ? syllables
+    : null;
+}
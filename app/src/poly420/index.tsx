@@ -1,42 +1,200 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  CALIBRATION_TAPS,
+  latencyFromErrors,
+  loadLatencyOffsets,
+  saveLatencyOffsets,
+  type AudioEngine,
+} from "./calibration";
+import { createOnsetDetector, detectOnsets } from "./onsets";
+import { sectionAt, sectionTrackId, trackInSection } from "./arrangement";
+import CircularView from "./CircularView";
+import {
+  compositeGrid,
+  compositePattern,
+  gridSteps,
+  mnemonicFor,
+} from "./composite";
+import { keyBelongsToControl, SHORTCUTS, shortcutFor } from "./shortcuts";
+import { addTap, tempoFromTaps } from "./tapTempo";
+import {
+  BUILT_IN_PRESETS,
+  loadPresets,
+  parsePresetLibrary,
+  presetLibraryJson,
+  savePresets,
+  upsertPreset,
+  type Preset,
+} from "./presets";
 import recorded_sha from "./recorded_sha";
+import {
+  scoreNote,
+  summarizeNotes,
+  tendency,
+  type ScoredNote,
+} from "./scoring";
 import "./styles.css";
+import {
+  clampAccentStrength,
+  clampHumanize,
+  clampMasterVolume,
+  clampPan,
+  clampPitch,
+  clampSpan,
+  clampSwing,
+  clampTempo,
+  DEFAULT_ACCENT_STRENGTH,
+  DEFAULT_MASTER_VOLUME,
+  DEFAULT_TEMPO,
+  DEFAULT_TRACKS,
+  DEFAULT_VOLUME,
+  defaultPattern,
+  defaultPitch,
+  encodeState,
+  MAX_PITCH,
+  MAX_SECTION_REPEATS,
+  MIN_PITCH,
+  MIN_TEMPO,
+  parseState,
+  resizePattern,
+  type SharedState,
+  type Section,
+  type Track,
+} from "./urlState";
+import {
+  advanceTransport,
+  bucketHits,
+  cycleAt,
+  isGapCycle,
+  layOutCycle,
+  MAX_HUMANIZE_MS,
+  MAX_SWING,
+  mergeTimeline,
+  rampTempo,
+  realignmentPulses,
+  resolveSpans,
+  resumeTransport,
+  startTransport,
+  type CycleSpan,
+  type GapPattern,
+  type Hit,
+  type Step,
+  type TempoRamp,
+  type TrackSpan,
+  type TransportState,
+} from "./transport";
+import {
+  DEFAULT_VOICE,
+  VOICE_ACCENT_PEAK,
+  VOICE_PEAK,
+  VOICES,
+  synthesizeVoice,
+  type Voice,
+} from "./voices";
+
+const DEFAULT_SECTION_REPEATS = 4;
+
+// Finer composite grids aren't built at all (LCM(beats) grows fast)...
+const MAX_COMPOSITE_STEPS = 1024;
+// ...and ones finer than this are still played, just not drawn
+const MAX_DRAWN_COMPOSITE_STEPS = 64;
+
+// Note picker range (MIDI C3..C7)
+const PICKER_NOTES = Array.from({ length: 49 }, (_, index) => 48 + index);
+const NOTE_NAMES = [
+  "C",
+  "C♯",
+  "D",
+  "D♯",
+  "E",
+  "F",
+  "F♯",
+  "G",
+  "G♯",
+  "A",
+  "A♯",
+  "B",
+];
 
-type Track = {
-  id: string;
-  beatsPerCycle: number;
-  pitchIndex: number;
-  volume: number;
-  muted: boolean;
-  deafened: boolean;
+// Tapping a step cycles on -> accent -> off -> soft -> on
+const NEXT_STEP: Record<Step, Step> = {
+  on: "accent",
+  accent: "off",
+  off: "soft",
+  soft: "on",
 };
 
-const PITCHES = [392, 494, 587, 440, 659, 784, 523, 698];
-
-const DEFAULT_TEMPO = 30;
-const DEFAULT_VOLUME = 0.75;
-const DEFAULT_TRACKS: Track[] = [
-  {
-    id: "track-1",
-    beatsPerCycle: 4,
-    volume: DEFAULT_VOLUME,
-    muted: false,
-    deafened: false,
-    pitchIndex: 0,
-  },
-  {
-    id: "track-2",
-    beatsPerCycle: 3,
-    volume: DEFAULT_VOLUME,
-    muted: false,
-    deafened: false,
-    pitchIndex: 1,
-  },
-];
+const DEFAULT_RAMP: TempoRamp = {
+  step: 2,
+  every: 4,
+  target: 60,
+  down: false,
+  stopAtEnd: false,
+};
 
-const clampTempo = (tempo: number) =>
-  Math.min(240, Math.max(1, Math.round(tempo)));
+const DEFAULT_GAP: GapPattern = { play: 2, silent: 2, random: false };
+
+const MAX_SCORED_NOTES = 400;
+// Offsets this large fill a per-beat bar
+const SCORE_RANGE_SEC = 0.08;
+const TAP_KEY = "j";
+const MIC_POLL_MS = 20;
+
+// Calibration swaps the mix for one steady click
+const CALIBRATION_CYCLE_SEC = 0.6;
+const CALIBRATION_TRACK: Track = {
+  id: "calibration",
+  beatsPerCycle: 1,
+  pattern: ["on"],
+  pitch: defaultPitch(0),
+  voice: DEFAULT_VOICE,
+  volume: 1,
+  muted: false,
+  deafened: false,
+  gapped: false,
+  swing: 0,
+  humanize: 0,
+  flat: false,
+  pan: 0,
+  span: null,
+  parentId: null,
+};
+
+const COUNT_IN_PITCH = 1047;
+const COUNT_IN_CLICKS = 4;
+const METER_FFT_SIZE = 1024;
+// The meter's scale runs from this many dB below full scale
+const METER_FLOOR_DB = 48;
+// Clicks ring for ~0.3s; offline renders fold that tail back onto the loop start
+const CLICK_TAIL_SEC = 0.35;
+// Uploaded samples are trimmed to this; it's a click, not a loop
+const MAX_USER_SAMPLE_SEC = 1;
+const EXPORT_SAMPLE_RATE = 44100;
+const MIDI_VELOCITY = 84;
+const MIDI_ACCENT_VELOCITY = 112;
+// One cycle is written as one 4/4 bar so DAW grids line up with the cycle
+const MIDI_QUARTERS_PER_CYCLE = 4;
+const MIDI_MIN_PPQ = 96;
+const MIDI_MAX_PPQ = 0x7fff;
+const MIDI_CHANNELS = 16;
+const MIDI_DRUM_CHANNEL = 9;
+const MAX_EXPORT_CYCLES = 64;
+const MAX_EXPORT_PULSES = 256;
+// Longer renders need hundreds of MB of float samples
+const MAX_EXPORT_SEC = 5 * 60;
+
+// Only ever grows, so ids stay unique across duplicates and reloads
 let trackCounter = DEFAULT_TRACKS.length + 1;
+const nextTrackId = () => `track-${trackCounter++}`;
+
+// Decoded tracks are numbered from track-1; new ones must come after them
+function reserveTrackIds(state: SharedState) {
+  const longest = Math.max(
+    state.tracks.length,
+    ...(state.arrangement ?? []).map((section) => section.tracks.length)
+  );
+  trackCounter = Math.max(trackCounter, longest + 1);
+}
 
 function isIOSChromeLikeWebView() {
   const ua = navigator.userAgent || "";
@@ -48,6 +206,46 @@ function isIOSChromeLikeWebView() {
   return isIOS && isChromeiOS;
 }
 
+function encodeWav(channels: Float32Array[], sampleRate: number) {
+  const n = channels[0]?.length ?? 0;
+  const bytesPerSample = 2;
+  const blockAlign = channels.length * bytesPerSample;
+  const byteRate = sampleRate * blockAlign;
+  const dataSize = n * blockAlign;
+
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeStr = (off: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(off + i, s.charCodeAt(i));
+  };
+
+  writeStr(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeStr(8, "WAVE");
+  writeStr(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeStr(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let o = 44;
+  for (let i = 0; i < n; i++) {
+    channels.forEach((samples) => {
+      const v = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(o, (v * 0x7fff) | 0, true);
+      o += 2;
+    });
+  }
+
+  return buffer;
+}
+
 function makeWavDataUri({
   freq,
   durationSec,
@@ -62,7 +260,7 @@ function makeWavDataUri({
   type: "sine" | "square" | "triangle";
 }) {
   const n = Math.max(1, Math.floor(sampleRate * durationSec));
-  const pcm = new Int16Array(n);
+  const samples = new Float32Array(n);
 
   const fadeN = Math.min(Math.floor(sampleRate * 0.0045), Math.floor(n / 2));
 
@@ -80,60 +278,192 @@ function makeWavDataUri({
           : -1
         : Math.sin(2 * Math.PI * freq * t);
 
-    const v = Math.max(-1, Math.min(1, s * amp));
-    pcm[i] = (v * 0x7fff) | 0;
+    samples[i] = s * amp;
   }
 
-  const bytesPerSample = 2;
-  const blockAlign = 1 * bytesPerSample; // mono
-  const byteRate = sampleRate * blockAlign;
-  const dataSize = n * bytesPerSample;
-
-  const buffer = new ArrayBuffer(44 + dataSize);
-  const view = new DataView(buffer);
-
-  const writeStr = (off: number, s: string) => {
-    for (let i = 0; i < s.length; i++) view.setUint8(off + i, s.charCodeAt(i));
-  };
-
-  writeStr(0, "RIFF");
-  view.setUint32(4, 36 + dataSize, true);
-  writeStr(8, "WAVE");
-  writeStr(12, "fmt ");
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true); // PCM
-  view.setUint16(22, 1, true); // channels
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, byteRate, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, 16, true);
-  writeStr(36, "data");
-  view.setUint32(40, dataSize, true);
-
-  let o = 44;
-  for (let i = 0; i < n; i++, o += 2) view.setInt16(o, pcm[i], true);
+  return samplesToWavDataUri(samples, sampleRate);
+}
 
-  const u8 = new Uint8Array(buffer);
+function samplesToWavDataUri(samples: Float32Array, sampleRate: number) {
+  const u8 = new Uint8Array(encodeWav([samples], sampleRate));
   let bin = "";
   for (let i = 0; i < u8.length; i++) bin += String.fromCharCode(u8[i]);
   const b64 = btoa(bin);
   return `data:audio/wav;base64,${b64}`;
 }
 
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+const lcm = (a: number, b: number) => (a / gcd(a, b)) * b;
+
+const frequencyToMidi = (freq: number) =>
+  Math.max(0, Math.min(127, Math.round(69 + 12 * Math.log2(freq / 440))));
+
+const midiToFrequency = (note: number) => 440 * 2 ** ((note - 69) / 12);
+
+const noteName = (note: number) =>
+  `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+
+function pushVarLen(out: number[], value: number) {
+  const bytes = [value & 0x7f];
+  let rest = value >>> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>>= 7;
+  }
+  out.push(...bytes);
+}
+
+function makeMidiChunk(type: string, data: number[]) {
+  const length = data.length;
+  return [
+    ...Array.from(type, (char) => char.charCodeAt(0)),
+    (length >>> 24) & 0xff,
+    (length >>> 16) & 0xff,
+    (length >>> 8) & 0xff,
+    length & 0xff,
+    ...data,
+  ];
+}
+
+function makeMidiTrack(events: { tick: number; bytes: number[] }[]) {
+  const data: number[] = [];
+  let lastTick = 0;
+  events
+    .slice()
+    .sort((a, b) => a.tick - b.tick)
+    .forEach(({ tick, bytes }) => {
+      pushVarLen(data, tick - lastTick);
+      data.push(...bytes);
+      lastTick = tick;
+    });
+  pushVarLen(data, 0);
+  data.push(0xff, 0x2f, 0x00); // end of track
+  return makeMidiChunk("MTrk", data);
+}
+
+const midiTrackName = (name: string) => {
+  const chars = Array.from(name, (char) => char.charCodeAt(0) & 0x7f);
+  return [0xff, 0x03, chars.length, ...chars];
+};
+
+// Standard MIDI File (format 1): a conductor track plus one track per Track.
+// The resolution is a multiple of LCM(beatsPerCycle) so every hit lands on an
+// exact tick; only absurd LCMs past the SMF limit fall back to rounding.
+// In a polymeter each "cycle" is one pulse, written as a quarter note
+function makeMidiFile({
+  tempo,
+  tracks,
+  cycles,
+  polymeter,
+}: {
+  tempo: number;
+  tracks: Track[];
+  cycles: number;
+  polymeter: boolean;
+}) {
+  const quartersPerCycle = polymeter ? 1 : MIDI_QUARTERS_PER_CYCLE;
+  // A pulse holds one beat of every track, so only swing needs finer ticks
+  const exactTicks = (polymeter ? [] : tracks).reduce(
+    (acc, track) => lcm(acc, track.beatsPerCycle),
+    quartersPerCycle
+  );
+  const scale = Math.max(
+    1,
+    Math.ceil((MIDI_MIN_PPQ * quartersPerCycle) / exactTicks)
+  );
+  const ppq =
+    (exactTicks * scale) / quartersPerCycle <= MIDI_MAX_PPQ
+      ? (exactTicks * scale) / quartersPerCycle
+      : 960;
+  const ticksPerCycle = ppq * quartersPerCycle;
+  const microsPerQuarter = Math.round(60_000_000 / (tempo * quartersPerCycle));
+
+  const conductor = makeMidiTrack([
+    { tick: 0, bytes: midiTrackName("Poly420") },
+    {
+      tick: 0,
+      bytes: [
+        0xff,
+        0x51,
+        0x03,
+        (microsPerQuarter >>> 16) & 0xff,
+        (microsPerQuarter >>> 8) & 0xff,
+        microsPerQuarter & 0xff,
+      ],
+    },
+    { tick: 0, bytes: [0xff, 0x58, 0x04, 4, 2, 24, 8] }, // 4/4
+  ]);
+
+  const trackChunks = tracks.map((track, index) => {
+    // 15 melodic channels around the drum channel; past 15 tracks they are
+    // shared in order, each track still on its own MIDI track
+    const slot = index % (MIDI_CHANNELS - 1);
+    const channel = slot >= MIDI_DRUM_CHANNEL ? slot + 1 : slot;
+    const note = frequencyToMidi(track.pitch);
+    const stepTicks = polymeter
+      ? ticksPerCycle
+      : ticksPerCycle / track.beatsPerCycle;
+    const noteTicks = Math.max(1, Math.floor(stepTicks / 2));
+    const loudness = Math.min(1.3, track.volume / DEFAULT_VOLUME);
+    const events: { tick: number; bytes: number[] }[] = [
+      { tick: 0, bytes: midiTrackName(`${track.beatsPerCycle} beats`) },
+    ];
+
+    for (let cycle = 0; cycle < cycles; cycle += 1) {
+      // Lay the cycle out in ticks instead of seconds; humanize jitter is in
+      // seconds, so it's left to the DAW
+      const straight = { ...track, humanize: 0 };
+      layOutCycle(
+        cycle,
+        cycle * ticksPerCycle,
+        ticksPerCycle,
+        [straight],
+        polymeter ? 0 : undefined
+      ).forEach((hit) => {
+        const tick = Math.round(hit.time);
+        const base = hit.accent ? MIDI_ACCENT_VELOCITY : MIDI_VELOCITY;
+        const velocity = Math.max(
+          1,
+          Math.min(127, Math.round(base * loudness * hit.velocity))
+        );
+        events.push({ tick, bytes: [0x90 | channel, note, velocity] });
+        events.push({
+          tick: tick + noteTicks,
+          bytes: [0x80 | channel, note, 0],
+        });
+      });
+    }
+
+    return makeMidiTrack(events);
+  });
+
+  const header = makeMidiChunk("MThd", [
+    0x00,
+    0x01, // format 1
+    ((trackChunks.length + 1) >>> 8) & 0xff,
+    (trackChunks.length + 1) & 0xff,
+    (ppq >>> 8) & 0xff,
+    ppq & 0xff,
+  ]);
+
+  return new Uint8Array([header, conductor, ...trackChunks].flat());
+}
+
 function scheduleClickWebAudio(
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   time: number,
   frequency: number,
   accent: boolean,
   density: number,
-  trackGain: GainNode | null
+  trackGain: GainNode | null,
+  velocity = 1
 ) {
   const osc = ctx.createOscillator();
   const gain = ctx.createGain();
 
   const accentBoost = accent ? 0.6 : 0.28;
   const smoothness = Math.tanh(0.72 + density * 0.13);
-  const peak = Math.min(1.05, (0.32 + accentBoost) * smoothness);
+  const peak = Math.min(1.05, (0.32 + accentBoost) * smoothness) * velocity;
 
   gain.gain.setValueAtTime(0, time);
   gain.gain.linearRampToValueAtTime(0.004, time + 0.0025);
@@ -156,154 +486,374 @@ function scheduleClickWebAudio(
   osc.stop(time + 0.35);
 }
 
-function tracksMatchDefault(tracks: Track[]) {
-  if (tracks.length !== DEFAULT_TRACKS.length) return false;
-  return tracks.every((track, index) => {
-    const baseline = DEFAULT_TRACKS[index];
-    return (
-      track.beatsPerCycle === baseline.beatsPerCycle &&
-      track.volume === baseline.volume &&
-      track.muted === baseline.muted &&
-      track.deafened === baseline.deafened
-    );
+const voiceBufferCache = new Map<string, AudioBuffer>();
+
+// A sound uploaded for one track's "sample" voice
+type UserSample = {
+  name: string;
+  buffer: AudioBuffer;
+};
+
+// An upload as a scheduled track plays it, with the id of the track it was
+// loaded on
+type ScheduledSample = {
+  owner: string;
+  buffer: AudioBuffer;
+};
+
+// The buffer a voice plays, or null for the oscillator beep (also used when
+// "sample" is picked but nothing was uploaded)
+function voiceBuffer(
+  voice: Voice,
+  frequency: number,
+  accent: boolean,
+  sampleRate: number,
+  userSample: AudioBuffer | null
+) {
+  if (voice === "sample") return userSample;
+  if (voice === "beep") return null;
+
+  const key = `${voice}:${frequency}:${accent ? "a" : "n"}:${sampleRate}`;
+  const cached = voiceBufferCache.get(key);
+  if (cached) return cached;
+
+  const samples = synthesizeVoice(voice, frequency, accent, sampleRate);
+  const buffer = new AudioBuffer({
+    length: samples.length,
+    numberOfChannels: 1,
+    sampleRate,
   });
+  buffer.copyToChannel(samples, 0);
+  voiceBufferCache.set(key, buffer);
+  return buffer;
 }
 
-function applyPitchOrder(tracks: Track[]) {
-  return tracks.map((track, index) => ({
-    ...track,
-    pitchIndex: index % PITCHES.length,
-  }));
+function scheduleTrackHitWebAudio(
+  ctx: BaseAudioContext,
+  time: number,
+  track: Track,
+  accent: boolean,
+  trackGain: GainNode | null,
+  userSample: AudioBuffer | null,
+  velocity = 1
+) {
+  const frequency = track.pitch;
+  const buffer = voiceBuffer(
+    track.voice,
+    frequency,
+    accent,
+    ctx.sampleRate,
+    userSample
+  );
+  if (!buffer) {
+    scheduleClickWebAudio(
+      ctx,
+      time,
+      frequency,
+      accent,
+      track.beatsPerCycle,
+      trackGain,
+      velocity
+    );
+    return;
+  }
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const gain = ctx.createGain();
+  // Synth voices carry their accent; a user sample is only played quieter
+  gain.gain.value =
+    (track.voice === "sample" && !accent ? VOICE_PEAK / VOICE_ACCENT_PEAK : 1) *
+    velocity;
+  source.connect(gain);
+  gain.connect(trackGain ?? ctx.destination);
+  source.start(time);
 }
 
-function encodeState(tempo: number, tracks: Track[], darkMode: boolean) {
-  const pieces: string[] = [];
+const preampTrackVolume = (volume: number) =>
+  Math.max(0, Math.min(1.1, volume * 1.22 + 0.04));
 
-  if (!darkMode) {
-    pieces.push("theme=light");
-  }
+// Everything ends up here: master volume, then a limiter so stacked clicks
+// don't clip, then the meter
+type MasterBus = {
+  input: GainNode;
+  limiter: DynamicsCompressorNode;
+  meter: AnalyserNode;
+};
 
-  if (tempo !== DEFAULT_TEMPO) {
-    pieces.push(`t=${tempo}`);
-  }
+function createMasterBus(ctx: BaseAudioContext, volume: number): MasterBus {
+  const input = ctx.createGain();
+  input.gain.value = volume;
+  // Hard and fast enough to hold peaks just under full scale
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.002;
+  limiter.release.value = 0.1;
+  const meter = ctx.createAnalyser();
+  meter.fftSize = METER_FFT_SIZE;
+  input.connect(limiter);
+  limiter.connect(meter);
+  meter.connect(ctx.destination);
+  return { input, limiter, meter };
+}
 
-  if (!tracksMatchDefault(tracks)) {
-    const trackStrings = tracks
-      .map((track) => {
-        const volumePercent = Math.round(track.volume * 100);
-        const volumeFlag =
-          volumePercent !== Math.round(DEFAULT_VOLUME * 100)
-            ? `v${volumePercent}`
-            : "";
-        const muteFlag = track.muted ? "m" : "";
-        const deafFlag = track.deafened ? "d" : "";
-        return `${track.beatsPerCycle}${volumeFlag}${muteFlag}${deafFlag}`;
-      })
-      .join("|");
-
-    pieces.push(`tracks=${trackStrings}`);
-  }
+// A track's gain, panned into `output`; hits connect to the gain
+function createTrackGain(
+  ctx: BaseAudioContext,
+  pan: number,
+  output: AudioNode
+) {
+  const gain = ctx.createGain();
+  const panner = ctx.createStereoPanner();
+  panner.pan.value = pan;
+  gain.connect(panner);
+  panner.connect(output);
+  return { gain, panner };
+}
 
-  if (pieces.length === 0) {
-    return "";
+// Seconds a WAV export runs for, count-in included
+const exportSeconds = (
+  tempo: number,
+  cycles: number,
+  countIn: boolean,
+  polymeter: boolean
+) =>
+  (60 / tempo) * (cycles + (countIn ? (polymeter ? COUNT_IN_CLICKS : 1) : 0));
+
+// Renders the mix exactly as the WebAudio engine would play it, starting at t=0.
+// `tracks` should already have mute/focus applied (see `audibleTracks`).
+async function renderPolyrhythmOffline({
+  tempo,
+  tracks,
+  cycles,
+  countIn,
+  userSamples,
+  masterVolume,
+  polymeter,
+  sampleRate = EXPORT_SAMPLE_RATE,
+}: {
+  tempo: number;
+  tracks: Track[];
+  // Pulses in a polymeter
+  cycles: number;
+  countIn: boolean;
+  // By track id
+  userSamples: Map<string, UserSample>;
+  masterVolume: number;
+  polymeter: boolean;
+  sampleRate?: number;
+}) {
+  if (exportSeconds(tempo, cycles, countIn, polymeter) > MAX_EXPORT_SEC) {
+    throw new Error(`longer than ${MAX_EXPORT_SEC / 60} minutes`);
+  }
+  const cycleDur = 60 / tempo;
+  // A polymeter counts in with a click per pulse
+  const loopStart = countIn ? cycleDur * (polymeter ? COUNT_IN_CLICKS : 1) : 0;
+  const loopLength = Math.round(cycles * cycleDur * sampleRate);
+  const loopStartFrame = Math.round(loopStart * sampleRate);
+  const tailFrames = Math.round(
+    Math.max(
+      CLICK_TAIL_SEC,
+      ...tracks.map((track) => userSamples.get(track.id)?.buffer.duration ?? 0)
+    ) * sampleRate
+  );
+  const ctx = new OfflineAudioContext(
+    2,
+    loopStartFrame + loopLength + tailFrames,
+    sampleRate
+  );
+  const master = createMasterBus(ctx, masterVolume);
+
+  if (countIn) {
+    for (let click = 0; click < COUNT_IN_CLICKS; click += 1) {
+      scheduleClickWebAudio(
+        ctx,
+        (loopStart * click) / COUNT_IN_CLICKS,
+        COUNT_IN_PITCH,
+        click === 0,
+        COUNT_IN_CLICKS,
+        master.input
+      );
+    }
   }
 
-  return `#${pieces.join(";")}`;
-}
+  tracks.forEach((track) => {
+    if (track.volume <= 0) return;
+    const { gain: trackGain } = createTrackGain(ctx, track.pan, master.input);
+    trackGain.gain.value = preampTrackVolume(track.volume);
+
+    for (let cycle = 0; cycle < cycles; cycle += 1) {
+      layOutCycle(
+        cycle,
+        loopStart + cycle * cycleDur,
+        cycleDur,
+        [track],
+        polymeter ? 0 : undefined
+      ).forEach((hit) =>
+        scheduleTrackHitWebAudio(
+          ctx,
+          hit.time,
+          track,
+          hit.accent,
+          trackGain,
+          userSamples.get(track.id)?.buffer ?? null,
+          hit.velocity
+        )
+      );
+    }
+  });
 
-function parseState(
-  hash: string
-): { tempo: number; tracks: Track[]; darkMode: boolean } | null {
-  const raw = hash.startsWith("#") ? hash.slice(1) : hash;
-  if (!raw)
-    return { tempo: DEFAULT_TEMPO, tracks: DEFAULT_TRACKS, darkMode: true };
-
-  const parts = raw.split(";");
-  let tempo = DEFAULT_TEMPO;
-  let tracksPart: string | null = null;
-  let darkMode = true;
-
-  parts.forEach((part) => {
-    if (part.startsWith("t=")) {
-      tempo = clampTempo(Number(part.slice(2)) || DEFAULT_TEMPO);
-    } else if (part.startsWith("theme=")) {
-      const themeValue = part.slice("theme=".length);
-      if (themeValue === "dark") {
-        darkMode = true;
-      } else if (themeValue === "light") {
-        darkMode = false;
-      }
-    } else if (part.startsWith("tracks=")) {
-      tracksPart = part.slice("tracks=".length);
+  const rendered = await ctx.startRendering();
+  const channels = Array.from({ length: rendered.numberOfChannels }, (_, c) => {
+    const source = rendered.getChannelData(c);
+    const out = source.slice(0, loopStartFrame + loopLength);
+    // Wrap the ringing tail of the last cycle onto the first so the loop is seamless
+    for (let i = 0; i < tailFrames && i < loopLength; i += 1) {
+      out[loopStartFrame + i] += source[loopStartFrame + loopLength + i];
     }
+    return out;
   });
 
-  if (!tracksPart) {
-    trackCounter = DEFAULT_TRACKS.length + 1;
-    return { tempo, tracks: DEFAULT_TRACKS, darkMode };
-  }
+  return { channels, sampleRate };
+}
 
-  const rawTracks: string = tracksPart;
-
-  const trackPieces = applyPitchOrder(
-    rawTracks
-      .split("|")
-      .map((piece: string, index: number) => {
-        const match = piece.match(/^(\d+)(v(\d+))?(m)?(d)?$/);
-        if (!match) return null;
-        const [, beats, , volRaw, muteFlag, deafFlag] = match;
-        const beatsPerCycle = Number(beats);
-        if (!Number.isFinite(beatsPerCycle) || beatsPerCycle < 1) {
-          return null;
-        }
-        const volumePercent = volRaw
-          ? Number(volRaw)
-          : Math.round(DEFAULT_VOLUME * 100);
-        const volume = Math.min(1, Math.max(0, volumePercent / 100));
-        return {
-          id: `track-${index + 1}`,
-          beatsPerCycle: Math.max(1, Math.round(beatsPerCycle)),
-          pitchIndex: index % PITCHES.length,
-          volume,
-          muted: Boolean(muteFlag),
-          deafened: Boolean(deafFlag),
-        } satisfies Track;
-      })
-      .filter(Boolean) as Track[]
-  );
+const formatMs = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  return `${ms > 0 ? "+" : ""}${ms} ms`;
+};
 
-  if (trackPieces.length === 0) {
-    return null;
-  }
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
 
-  trackCounter = trackPieces.length + 1;
-  return { tempo, tracks: trackPieces, darkMode };
+const exportBaseName = (tempo: number, tracks: Track[], polymeter: boolean) =>
+  `poly420-${tracks.map((track) => track.beatsPerCycle).join("-")}-${tempo}${
+    polymeter ? "bpm" : "cpm"
+  }`;
+
+// Mute and focus folded into volume: focused tracks play alone, muted ones are
+// silent. Flat tracks lose their accents.
+function audibleMix(tracks: Track[], accentStrength: number) {
+  const focused = tracks.filter((track) => track.deafened);
+  const activeIds = new Set(
+    (focused.length > 0 ? focused : tracks)
+      .filter((track) => !track.muted)
+      .map((track) => track.id)
+  );
+
+  return tracks.map((track) => ({
+    ...track,
+    volume: activeIds.has(track.id) ? track.volume : 0,
+    accentStrength: track.flat ? 0 : accentStrength,
+  }));
 }
 
 export default function Poly420() {
-  const initial = parseState(window.location.hash);
-  const [darkMode, setDarkMode] = useState(initial?.darkMode ?? true);
+  const [{ state: initial, error: initialError }] = useState(() => {
+    const parsed = parseState(window.location.hash);
+    reserveTrackIds(parsed.state);
+    return parsed;
+  });
+  const [hashError, setHashError] = useState(initialError);
+  const [darkMode, setDarkMode] = useState(initial.darkMode);
   const [playing, setPlaying] = useState(false);
-  const [tempo, setTempo] = useState(initial?.tempo ?? DEFAULT_TEMPO);
-  const [tracks, setTracks] = useState<Track[]>(
-    applyPitchOrder(initial?.tracks ?? DEFAULT_TRACKS)
-  );
+  const [tempo, setTempo] = useState(initial.tempo);
+  const [tracks, setTracks] = useState<Track[]>(initial.tracks);
   const [snapBeats, setSnapBeats] = useState(false);
+  const [exportCycles, setExportCycles] = useState(4);
+  const [exportCountIn, setExportCountIn] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [ramp, setRamp] = useState<TempoRamp>(initial.ramp ?? DEFAULT_RAMP);
+  const [rampOn, setRampOn] = useState(Boolean(initial.ramp));
+  const [liveTempo, setLiveTempo] = useState(tempo);
+  const [gap, setGap] = useState<GapPattern>(initial.gap ?? DEFAULT_GAP);
+  const [gapOn, setGapOn] = useState(Boolean(initial.gap));
+  const [gapSilent, setGapSilent] = useState(false);
+  const [scoreTrackId, setScoreTrackId] = useState<string | null>(null);
+  const [scoredNotes, setScoredNotes] = useState<ScoredNote[]>([]);
+  const [listening, setListening] = useState(false);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [latencyOffsets, setLatencyOffsets] = useState(loadLatencyOffsets);
+  // Taps so far while calibrating, null otherwise
+  const [calibrationTaps, setCalibrationTaps] = useState<number | null>(null);
+  const [sections, setSections] = useState<Section[]>(
+    initial.arrangement ?? []
+  );
+  const [arrangementOn, setArrangementOn] = useState(
+    Boolean(initial.arrangement)
+  );
+  const [polymeter, setPolymeter] = useState(initial.polymeter);
+  const [accentStrength, setAccentStrength] = useState(initial.accentStrength);
+  const [masterVolume, setMasterVolume] = useState(initial.masterVolume);
+  // Pulses until the tracks are all back on beat 1; 0 right on the realignment
+  const [realignIn, setRealignIn] = useState<number | null>(null);
+  const [editingSection, setEditingSection] = useState(0);
+  const [playingSection, setPlayingSection] = useState<number | null>(null);
+  const [sectionCycle, setSectionCycle] = useState(0);
+  const [circularView, setCircularView] = useState(false);
+  const [compositeOnly, setCompositeOnly] = useState(false);
+  const [presets, setPresets] = useState(loadPresets);
+  // "b<index>" for a built-in preset, "u<index>" for a saved one
+  const [selectedPreset, setSelectedPreset] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [draggingTrackId, setDraggingTrackId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // "cycle", or the id of the track whose beats are being tapped
+  const [tapUnit, setTapUnit] = useState("cycle");
+  // Uploaded sounds by track id
+  const [userSamples, setUserSamples] = useState<Map<string, UserSample>>(
+    () => new Map()
+  );
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const keepAliveRef = useRef<OscillatorNode | null>(null);
   const transportAnchorRef = useRef<number | null>(null);
   const trackGainsRef = useRef<Map<string, GainNode>>(new Map());
+  const trackPannersRef = useRef<Map<string, StereoPannerNode>>(new Map());
+  const masterBusRef = useRef<MasterBus | null>(null);
+  const masterVolumeRef = useRef(initial.masterVolume);
 
   // Timing
-  const startTimeRef = useRef(0);
-  const nextCycleRef = useRef(0);
-  const scheduledUntilRef = useRef(0);
+  const transportRef = useRef<TransportState | null>(null);
+  const cycleTimelineRef = useRef<CycleSpan[]>([]);
 
   // Live refs to avoid tearing down audio on every UI change
-  const cycleDurationRef = useRef(60 / (initial?.tempo ?? DEFAULT_TEMPO));
+  const cycleDurationRef = useRef(60 / initial.tempo);
   const audibleTracksRef = useRef<Track[]>([]);
+  // The audible tracks even while composite-only plays them as one voice
+  const mixTracksRef = useRef<Track[]>([]);
   const restartTransportRef = useRef(false);
+  const rampRef = useRef<TempoRamp | null>(null);
+  const arrangementRef = useRef<Section[] | null>(null);
+  const scoreTrackIdRef = useRef<string | null>(null);
+  const calibrationRef = useRef<number[] | null>(null);
+  const latencyOffsetRef = useRef<number | undefined>(undefined);
+  // By scheduled track id
+  const trackSamplesRef = useRef<Map<string, ScheduledSample>>(new Map());
+  const micRef = useRef<{
+    stream: MediaStream;
+    source: MediaStreamAudioSourceNode;
+    timer: number;
+  } | null>(null);
+  const rampOriginRef = useRef({ cycle: 0, tempo });
+  const gapRef = useRef<GapPattern | null>(null);
+  // First cycle of the current run and the seed for randomized gaps
+  const runOriginRef = useRef({ cycle: 0, seed: 0 });
+
+  const tapTempoRef = useRef<number[]>([]);
+  const polymeterRef = useRef(false);
 
   const lastCssProgressRef = useRef(-1);
   const snapResetHandleRef = useRef<number | null>(null);
@@ -346,14 +896,40 @@ export default function Poly420() {
   const pendingHtmlTimersRef = useRef<number[]>([]);
 
   const resetTrackGains = useCallback(() => {
-    trackGainsRef.current.forEach((gain) => {
+    trackGainsRef.current.forEach((gain, id) => {
       try {
         gain.disconnect();
+        trackPannersRef.current.get(id)?.disconnect();
       } catch {}
     });
     trackGainsRef.current.clear();
+    trackPannersRef.current.clear();
+  }, []);
+
+  // One bus per context; a new one comes with the context after a stop
+  const masterBusFor = useCallback((ctx: AudioContext) => {
+    const existing = masterBusRef.current;
+    if (existing && existing.input.context === ctx) return existing;
+    const bus = createMasterBus(ctx, masterVolumeRef.current);
+    masterBusRef.current = bus;
+    return bus;
   }, []);
 
+  // Gain and panner for a track the live graph hasn't seen yet
+  const addTrackGain = useCallback(
+    (ctx: AudioContext, id: string, pan: number) => {
+      const { gain, panner } = createTrackGain(
+        ctx,
+        pan,
+        masterBusFor(ctx).input
+      );
+      trackGainsRef.current.set(id, gain);
+      trackPannersRef.current.set(id, panner);
+      return gain;
+    },
+    [masterBusFor]
+  );
+
   const clearPendingHtmlTimers = useCallback(() => {
     pendingHtmlTimersRef.current.forEach((handle) => clearTimeout(handle));
     pendingHtmlTimersRef.current = [];
@@ -361,53 +937,291 @@ export default function Poly420() {
 
   // Prefer HTML audio on iOS Chrome/WKWebView where WebAudio is often blocked.
   const useHtmlAudioEngine = isIOSChromeLikeWebView();
+  const audioEngine: AudioEngine = useHtmlAudioEngine ? "html" : "webaudio";
+  const latencyOffset = latencyOffsets[audioEngine];
+  const calibrating = calibrationTaps !== null;
+
+  useEffect(() => {
+    latencyOffsetRef.current = latencyOffset;
+  }, [latencyOffset]);
+
+  // Seconds from a click being scheduled to it being heard. Falls back to what
+  // WebAudio reports when this engine hasn't been calibrated.
+  const outputOffset = useCallback(() => {
+    if (latencyOffsetRef.current !== undefined) return latencyOffsetRef.current;
+    const ctx = audioContextRef.current;
+    if (useHtmlAudioEngine || !ctx) return 0;
+    return (ctx.baseLatency || 0) + (ctx.outputLatency || 0);
+  }, [useHtmlAudioEngine]);
 
   const restartHtmlTransport = useCallback(() => {
     if (!useHtmlAudioEngine || !playingRef.current) return;
 
     clearPendingHtmlTimers();
-    const now = performance.now() / 1000;
-    const anchor = transportAnchorRef.current ?? now + 0.008;
-    transportAnchorRef.current = anchor;
-    startTimeRef.current = anchor;
-    nextCycleRef.current = Math.max(
-      0,
-      Math.floor((now - anchor) / cycleDurationRef.current)
-    );
-    scheduledUntilRef.current =
-      startTimeRef.current + nextCycleRef.current * cycleDurationRef.current;
     restartTransportRef.current = true;
   }, [clearPendingHtmlTimers, useHtmlAudioEngine]);
 
   const cycleDuration = useMemo(() => 60 / tempo, [tempo]);
 
-  const timingSignature = useMemo(
+  // Parent references worked out into spans, for playing and drawing
+  const placedTracks = useMemo(() => resolveSpans(tracks), [tracks]);
+  const audibleTracks = useMemo(
+    () => audibleMix(placedTracks, accentStrength),
+    [accentStrength, placedTracks]
+  );
+
+  // The section being edited lives in `tempo`/`tracks`; fold it back in
+  const effectiveSections = useMemo(
     () =>
-      `${tempo}|${tracks
-        .map((track) => `${track.id}:${track.beatsPerCycle}`)
-        .join(",")}`,
-    [tempo, tracks]
+      sections.map((section, index) =>
+        index === editingSection ? { ...section, tempo, tracks } : section
+      ),
+    [editingSection, sections, tempo, tracks]
   );
 
-  const audibleTracks = useMemo(() => {
-    const focused = tracks.filter((track) => track.deafened);
-    const activeIds = new Set(
-      (focused.length > 0 ? focused : tracks)
-        .filter((track) => !track.muted)
-        .map((track) => track.id)
-    );
+  // What the scheduler plays; track ids are made unique per section so each
+  // section keeps its own gain nodes
+  const playableSections = useMemo(
+    () =>
+      arrangementOn && !calibrating
+        ? effectiveSections.map((section, index) => ({
+            ...section,
+            tracks: audibleMix(
+              resolveSpans(section.tracks),
+              accentStrength
+            ).map((track) => ({
+              ...track,
+              id: sectionTrackId(index, track.id),
+            })),
+          }))
+        : null,
+    [accentStrength, arrangementOn, calibrating, effectiveSections]
+  );
+
+  useEffect(() => {
+    arrangementRef.current = playableSections;
+  }, [playableSections]);
+
+  const realignment = useMemo(
+    () => realignmentPulses(audibleTracks),
+    [audibleTracks]
+  );
+
+  // The union of what's audible, on one grid of LCM(beats) steps
+  const compositeTracks = useMemo(
+    () => audibleTracks.filter((track) => track.volume > 0),
+    [audibleTracks]
+  );
+  const compositeSteps = useMemo(
+    () => gridSteps(compositeTracks),
+    [compositeTracks]
+  );
+  const composite = useMemo(
+    () => compositeGrid(compositeTracks, MAX_COMPOSITE_STEPS),
+    [compositeTracks]
+  );
+  const mnemonic = useMemo(
+    () => composite && mnemonicFor(compositeTracks, composite),
+    [composite, compositeTracks]
+  );
+
+  // Plays the composite as one voice: the first audible track's sound
+  const compositeTrack = useMemo((): Track | null => {
+    const lead = compositeTracks[0];
+    if (!compositeOnly || !composite || !lead) return null;
+    return {
+      ...lead,
+      id: "composite",
+      beatsPerCycle: composite.steps,
+      pattern: compositePattern(composite),
+      muted: false,
+      deafened: false,
+      gapped: false,
+      swing: 0,
+      humanize: 0,
+      flat: false,
+      pan: 0,
+      span: null,
+      parentId: null,
+    };
+  }, [composite, compositeOnly, compositeTracks]);
 
-    return tracks.map((track) => ({
-      ...track,
-      volume: activeIds.has(track.id) ? track.volume : 0,
-    }));
-  }, [tracks]);
+  // Section copies and the composite voice play the upload of the track they
+  // come from
+  useEffect(() => {
+    const bySchedule = new Map<string, ScheduledSample>();
+    const add = (scheduledId: string, owner: string) => {
+      const sample = userSamples.get(owner);
+      if (sample) bySchedule.set(scheduledId, { owner, buffer: sample.buffer });
+    };
+    tracks.forEach((track) => add(track.id, track.id));
+    effectiveSections.forEach((section, index) =>
+      section.tracks.forEach((track) =>
+        add(sectionTrackId(index, track.id), track.id)
+      )
+    );
+    if (compositeTrack && compositeTracks[0]) {
+      add(compositeTrack.id, compositeTracks[0].id);
+    }
+    trackSamplesRef.current = bySchedule;
+  }, [compositeTrack, compositeTracks, effectiveSections, tracks, userSamples]);
 
   // Keep refs current for the scheduler
   useEffect(() => {
-    cycleDurationRef.current = cycleDuration;
-    audibleTracksRef.current = audibleTracks;
-  }, [cycleDuration, audibleTracks]);
+    cycleDurationRef.current = calibrating
+      ? CALIBRATION_CYCLE_SEC
+      : cycleDuration;
+    audibleTracksRef.current = calibrating
+      ? [CALIBRATION_TRACK]
+      : compositeOnly && compositeTrack && !polymeter
+      ? [compositeTrack]
+      : audibleTracks;
+    mixTracksRef.current = audibleTracks;
+    polymeterRef.current = polymeter && !calibrating;
+  }, [
+    audibleTracks,
+    calibrating,
+    compositeOnly,
+    compositeTrack,
+    polymeter,
+    cycleDuration,
+  ]);
+
+  // A ramp (re)starts from the next unscheduled cycle whenever it or the base tempo changes
+  useEffect(() => {
+    rampRef.current = rampOn && !calibrating ? ramp : null;
+    rampOriginRef.current = { cycle: transportRef.current?.cycle ?? 0, tempo };
+  }, [calibrating, ramp, rampOn, tempo]);
+
+  const cycleDurationAt = useCallback((cycle: number) => {
+    const arrangement = arrangementRef.current;
+    const position =
+      arrangement && sectionAt(arrangement, cycle - runOriginRef.current.cycle);
+    if (arrangement && position) return 60 / arrangement[position.index].tempo;
+
+    const activeRamp = rampRef.current;
+    if (!activeRamp) return cycleDurationRef.current;
+    const origin = rampOriginRef.current;
+    const rampedTempo = rampTempo(
+      activeRamp,
+      origin.tempo,
+      cycle - origin.cycle
+    );
+    return rampedTempo === null ? null : 60 / rampedTempo;
+  }, []);
+
+  const beginTransport = useCallback((now: number) => {
+    const anchor = transportAnchorRef.current ?? now + 0.008;
+    transportAnchorRef.current = anchor;
+    const state = startTransport(anchor, now, cycleDurationRef.current);
+    transportRef.current = state;
+    cycleTimelineRef.current = [];
+    rampOriginRef.current = { ...rampOriginRef.current, cycle: state.cycle };
+    runOriginRef.current = {
+      cycle: state.cycle,
+      seed: Math.floor(Math.random() * 0x7fffffff),
+    };
+    return state;
+  }, []);
+
+  useEffect(() => {
+    gapRef.current = gapOn && !calibrating ? gap : null;
+  }, [calibrating, gap, gapOn]);
+
+  // Tracks playing in `cycle`: the arrangement's section for it, if one is on
+  const tracksForCycle = useCallback((cycle: number) => {
+    const arrangement = arrangementRef.current;
+    const position =
+      arrangement && sectionAt(arrangement, cycle - runOriginRef.current.cycle);
+    return arrangement && position
+      ? arrangement[position.index].tracks
+      : audibleTracksRef.current;
+  }, []);
+
+  const isGapCycleNow = useCallback((cycle: number) => {
+    const activeGap = gapRef.current;
+    if (!activeGap) return false;
+    const run = runOriginRef.current;
+    return isGapCycle(activeGap, cycle - run.cycle, run.seed);
+  }, []);
+
+  // In polymeter mode pulses count from the start of the run
+  const pulseOrigin = useCallback(
+    () => (polymeterRef.current ? runOriginRef.current.cycle : undefined),
+    []
+  );
+
+  const isHitSilenced = useCallback(
+    (hit: Hit) => {
+      if (!isGapCycleNow(hit.cycle)) return false;
+      const picked = tracksForCycle(hit.cycle).filter((track) => track.gapped);
+      return (
+        picked.length === 0 || picked.some((track) => track.id === hit.trackId)
+      );
+    },
+    [isGapCycleNow, tracksForCycle]
+  );
+
+  const scoredTrack = placedTracks.find((track) => track.id === scoreTrackId);
+
+  const scoreStats = useMemo(
+    () =>
+      scoredTrack
+        ? summarizeNotes(scoredNotes, scoredTrack.beatsPerCycle)
+        : null,
+    [scoredNotes, scoredTrack]
+  );
+
+  const addScoredNotes = useCallback((notes: ScoredNote[]) => {
+    if (notes.length === 0) return;
+    setScoredNotes((prev) => [...prev, ...notes].slice(-MAX_SCORED_NOTES));
+  }, []);
+
+  useEffect(() => {
+    scoreTrackIdRef.current = scoreTrackId;
+  }, [scoreTrackId]);
+
+  // `time` is in seconds on the scheduler's performance.now() clock, as heard
+  const registerNote = useCallback(
+    (time: number) => {
+      const id = scoreTrackIdRef.current;
+      if (!playingRef.current || id === null) return;
+      // The selected track as each cycle schedules it: its section's copy in
+      // an arrangement, and itself under composite-only
+      const trackInCycle = (cycle: number) => {
+        const arrangement = arrangementRef.current;
+        return arrangement
+          ? trackInSection(arrangement, cycle - runOriginRef.current.cycle, id)
+          : mixTracksRef.current.find((track) => track.id === id) ?? null;
+      };
+      const note = scoreNote(
+        cycleTimelineRef.current,
+        trackInCycle,
+        time - outputOffset(),
+        pulseOrigin()
+      );
+      if (note) addScoredNotes([note]);
+    },
+    [addScoredNotes, outputOffset, pulseOrigin]
+  );
+
+  // `timeStamp` is an event timestamp in ms, on the same clock as performance.now()
+  const registerTap = useCallback(
+    (timeStamp: number) => registerNote(timeStamp / 1000),
+    [registerNote]
+  );
+
+  const stopListening = useCallback(() => {
+    const mic = micRef.current;
+    micRef.current = null;
+    setListening(false);
+    if (!mic) return;
+    window.clearInterval(mic.timer);
+    mic.stream.getTracks().forEach((track) => track.stop());
+    mic.source.disconnect();
+  }, []);
+
+  useEffect(() => stopListening, [stopListening]);
 
   const audibleMembershipSignature = useMemo(
     () => audibleTracks.map((track) => track.id).join("|"),
@@ -420,7 +1234,16 @@ export default function Poly420() {
   }, [audibleMembershipSignature, restartHtmlTransport, useHtmlAudioEngine]);
 
   useEffect(() => {
-    if (!playingRef.current || useHtmlAudioEngine) return;
+    // Arrangement and composite gains aren't per edited track; the scheduler
+    // keeps them current
+    if (
+      !playingRef.current ||
+      useHtmlAudioEngine ||
+      arrangementOn ||
+      compositeOnly
+    ) {
+      return;
+    }
     const ctx = audioContextRef.current;
     if (!ctx || ctx.state === "closed") return;
 
@@ -430,88 +1253,48 @@ export default function Poly420() {
 
     trackGainsRef.current.forEach((gain, id) => {
       const track = trackById.get(id);
+      const panner = trackPannersRef.current.get(id);
       if (!track) {
         try {
           gain.disconnect();
+          panner?.disconnect();
         } catch {}
         trackGainsRef.current.delete(id);
+        trackPannersRef.current.delete(id);
         return;
       }
 
       const targetGain = track.volume;
       gain.gain.setValueAtTime(targetGain, ctx.currentTime);
+      panner?.pan.setValueAtTime(track.pan, ctx.currentTime);
     });
 
     audibleTracks.forEach((track) => {
       const existing = trackGainsRef.current.get(track.id);
       if (existing) return;
 
-      const gain = ctx.createGain();
+      const gain = addTrackGain(ctx, track.id, track.pan);
       gain.gain.setValueAtTime(track.volume, ctx.currentTime);
-      gain.connect(ctx.destination);
-      trackGainsRef.current.set(track.id, gain);
     });
-  }, [audibleTracks, useHtmlAudioEngine]);
+  }, [
+    addTrackGain,
+    arrangementOn,
+    audibleTracks,
+    compositeOnly,
+    useHtmlAudioEngine,
+  ]);
 
-  // Restart transport when timing changes; rebuild the audio loop so old hits die
   useEffect(() => {
-    if (!playingRef.current) return;
-    restartTransportRef.current = true;
-    startTimeRef.current = 0;
-    nextCycleRef.current = 0;
-    scheduledUntilRef.current = 0;
+    masterVolumeRef.current = masterVolume;
+    const bus = masterBusRef.current;
+    if (!bus) return;
+    bus.input.gain.setValueAtTime(masterVolume, bus.input.context.currentTime);
+  }, [masterVolume]);
 
-    if (useHtmlAudioEngine) {
-      clearPendingHtmlTimers();
-      return;
-    }
-
-    resetTrackGains();
-    const ctx = audioContextRef.current;
-    if (ctx && ctx.state !== "closed") {
-      ctx.close().catch(() => {});
-    }
-    audioContextRef.current = null;
-    keepAliveRef.current = null;
-
-    const AudioCtor: typeof AudioContext =
-      window.AudioContext ||
-      (window as unknown as { webkitAudioContext: typeof AudioContext })
-        .webkitAudioContext;
-
-    const freshCtx = new AudioCtor({
-      latencyHint: "interactive",
-    } as AudioContextOptions);
-    audioContextRef.current = freshCtx;
-
-    void (async () => {
-      try {
-        if (freshCtx.state !== "running") {
-          await freshCtx.resume();
-        }
-        if (!keepAliveRef.current) {
-          const osc = freshCtx.createOscillator();
-          const gain = freshCtx.createGain();
-          gain.gain.value = 0;
-          osc.frequency.value = 30;
-          osc.connect(gain);
-          gain.connect(freshCtx.destination);
-          osc.start();
-          keepAliveRef.current = osc;
-        }
-      } catch {}
-    })();
-  }, [
-    clearPendingHtmlTimers,
-    resetTrackGains,
-    timingSignature,
-    useHtmlAudioEngine,
-  ]);
-
-  const setCycleProgressCss = useCallback((value: number) => {
-    const clamped = Math.max(0, Math.min(1, value));
-    const prev = lastCssProgressRef.current;
-    const wrapped = playingRef.current && clamped < prev;
+  const setCycleProgressCss = useCallback((value: number) => {
+    const clamped = Math.max(0, Math.min(1, value));
+    const prev = lastCssProgressRef.current;
+    const wrapped = playingRef.current && clamped < prev;
 
     if (wrapped) {
       setSnapBeats(true);
@@ -570,6 +1353,10 @@ export default function Poly420() {
 
   const stopAudioHard = useCallback(() => {
     setPlaying(false);
+    // The mic hangs off the context that is about to close
+    stopListening();
+    calibrationRef.current = null;
+    setCalibrationTaps(null);
 
     clearPendingHtmlTimers();
     resetTrackGains();
@@ -593,9 +1380,8 @@ export default function Poly420() {
 
     // Reset transport state immediately
     transportAnchorRef.current = null;
-    startTimeRef.current = 0;
-    nextCycleRef.current = 0;
-    scheduledUntilRef.current = 0;
+    transportRef.current = null;
+    cycleTimelineRef.current = [];
     restartTransportRef.current = false;
 
     // Closing is fine on explicit Stop; the next Play must be a gesture anyway
@@ -603,7 +1389,52 @@ export default function Poly420() {
       ctx.close().catch(() => {});
     }
     audioContextRef.current = null;
-  }, [clearPendingHtmlTimers, resetTrackGains, useHtmlAudioEngine]);
+    masterBusRef.current = null;
+  }, [
+    clearPendingHtmlTimers,
+    resetTrackGains,
+    stopListening,
+    useHtmlAudioEngine,
+  ]);
+
+  // Raw tap error against the calibration click; the settled median becomes
+  // this engine's offset
+  const registerCalibrationTap = useCallback(
+    (timeStamp: number) => {
+      const errors = calibrationRef.current;
+      if (!playingRef.current || !errors) return;
+      const note = scoreNote(
+        cycleTimelineRef.current,
+        CALIBRATION_TRACK,
+        timeStamp / 1000
+      );
+      if (!note) return;
+      const next = [...errors, note.error];
+      calibrationRef.current = next;
+      setCalibrationTaps(next.length);
+
+      const offset = latencyFromErrors(next);
+      if (offset === null) return;
+      const offsets = { ...latencyOffsets, [audioEngine]: offset };
+      saveLatencyOffsets(offsets);
+      setLatencyOffsets(offsets);
+      stopAudioHard();
+    },
+    [audioEngine, latencyOffsets, stopAudioHard]
+  );
+
+  useEffect(() => {
+    if (!scoreTrackId && !calibrating) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.key.toLowerCase() !== TAP_KEY) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, select, textarea")) return;
+      if (calibrating) registerCalibrationTap(event.timeStamp);
+      else registerTap(event.timeStamp);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [calibrating, registerCalibrationTap, registerTap, scoreTrackId]);
 
   const ensureAudioPool = useCallback(() => {
     if (audioPoolRef.current.length > 0) return;
@@ -624,23 +1455,48 @@ export default function Poly420() {
   }, []);
 
   const getSampleUri = useCallback(
-    (freq: number, accent: boolean, loudness: number) => {
+    (
+      freq: number,
+      accent: boolean,
+      loudness: number,
+      voice: Voice = DEFAULT_VOICE,
+      trackId = ""
+    ) => {
+      const sample =
+        voice === "sample" ? trackSamplesRef.current.get(trackId) : undefined;
       const boosted = Math.max(
         0,
         Math.min(1.18, loudness * (accent ? 1.3 : 1.18))
       );
       const quantized = Math.round(boosted * 100);
-      const key = `${freq}:${accent ? "a" : "n"}:${quantized}`;
+      // Uploads are cached under the track they were loaded on
+      const source = sample ? `sample:${sample.owner}` : voice;
+      const key = `${source}:${freq}:${accent ? "a" : "n"}:${quantized}`;
       const hit = samplesRef.current.get(key);
       if (hit) return hit;
 
-      const uri = makeWavDataUri({
+      // Same samples the WebAudio engine plays, scaled like the beep
+      const buffer = voiceBuffer(
+        voice,
         freq,
-        durationSec: accent ? 0.075 : 0.055,
-        sampleRate: 44100,
-        volume: boosted,
-        type: accent ? "triangle" : "sine",
-      });
+        accent,
+        EXPORT_SAMPLE_RATE,
+        sample?.buffer ?? null
+      );
+      const gain =
+        voice === "sample" && !accent ? VOICE_PEAK / VOICE_ACCENT_PEAK : 1;
+      const uri = buffer
+        ? samplesToWavDataUri(
+            buffer.getChannelData(0).map((value) => value * boosted * gain),
+            buffer.sampleRate
+          )
+        : makeWavDataUri({
+            freq,
+            durationSec: accent ? 0.075 : 0.055,
+            sampleRate: 44100,
+            volume: boosted,
+            type: accent ? "triangle" : "sine",
+          });
 
       samplesRef.current.set(key, uri);
       return uri;
@@ -692,16 +1548,7 @@ export default function Poly420() {
   }, [ensureAudioPool, getSampleUri]);
 
   const playSampleWithHtmlAudio = useCallback(
-    ({
-      when,
-      hits,
-    }: {
-      when: number;
-      hits: {
-        trackId: string;
-        accent: boolean;
-      }[];
-    }) => {
+    ({ when, hits }: { when: number; hits: Hit[] }) => {
       ensureAudioPool();
       const pool = audioPoolRef.current;
       if (pool.length === 0 || hits.length === 0) return;
@@ -710,15 +1557,13 @@ export default function Poly420() {
       const delayMs = Math.max(0, Math.round((when - now) * 1000));
 
       const playNow = () => {
-        const audibleById = new Map(
-          audibleTracksRef.current.map((track) => [track.id, track])
-        );
-
-        hits.forEach(({ trackId, accent }) => {
-          const track = audibleById.get(trackId);
+        hits.forEach(({ trackId, accent, cycle, velocity }) => {
+          const track = tracksForCycle(cycle).find(
+            (candidate) => candidate.id === trackId
+          );
           if (!track) return;
 
-          const frequency = PITCHES[track.pitchIndex % PITCHES.length];
+          const frequency = track.pitch;
           const index = audioPoolIndexRef.current % pool.length;
           audioPoolIndexRef.current =
             (audioPoolIndexRef.current + 1) % pool.length;
@@ -730,8 +1575,18 @@ export default function Poly420() {
           } catch {}
 
           const loudness = Math.max(0, Math.min(1.1, track.volume * 1.3));
-          audio.src = getSampleUri(frequency, accent, loudness);
-          audio.volume = Math.min(1, loudness * (accent ? 1.05 : 1));
+          audio.src = getSampleUri(
+            frequency,
+            accent,
+            loudness,
+            track.voice,
+            track.id
+          );
+          // No panning or limiter here; <audio> only has a volume
+          audio.volume = Math.min(
+            1,
+            loudness * (accent ? 1.05 : 1) * velocity * masterVolumeRef.current
+          );
           audio.muted = false;
 
           const playPromise = audio.play();
@@ -748,14 +1603,94 @@ export default function Poly420() {
         pendingHtmlTimersRef.current.push(timer);
       }
     },
-    [ensureAudioPool, getSampleUri]
+    [ensureAudioPool, getSampleUri, tracksForCycle]
+  );
+
+  // Lays out HTML audio hits up to `until`; shared by the scheduler tick and the
+  // first cycle fired inside the Play gesture. Returns true once a ramp that
+  // stops at the end has played out.
+  const scheduleHtmlUntil = useCallback(
+    (now: number, until: number) => {
+      let transport = transportRef.current;
+      if (transport === null) {
+        clearPendingHtmlTimers();
+        transport = beginTransport(now);
+        restartTransportRef.current = false;
+      } else if (restartTransportRef.current) {
+        // Pending timers were dropped; lay the cycle in progress out again
+        clearPendingHtmlTimers();
+        transport = resumeTransport(
+          cycleTimelineRef.current,
+          transportAnchorRef.current ?? now,
+          now,
+          cycleDurationRef.current
+        );
+        restartTransportRef.current = false;
+      }
+
+      const { state, hits, cycles, realigned, ended } = advanceTransport(
+        transport,
+        {
+          now,
+          until,
+          cycleDuration: cycleDurationAt,
+          tracks: tracksForCycle,
+          isSilenced: isHitSilenced,
+          pulseOrigin: pulseOrigin(),
+        }
+      );
+      transportRef.current = state;
+      cycleTimelineRef.current = mergeTimeline(
+        cycleTimelineRef.current,
+        cycles,
+        now
+      );
+      if (realigned) clearPendingHtmlTimers();
+
+      bucketHits(hits).forEach(({ time, hits: bucket }) => {
+        playSampleWithHtmlAudio({ when: time, hits: bucket });
+      });
+      return ended && now >= state.cycleStart;
+    },
+    [
+      beginTransport,
+      clearPendingHtmlTimers,
+      cycleDurationAt,
+      isHitSilenced,
+      playSampleWithHtmlAudio,
+      pulseOrigin,
+      tracksForCycle,
+    ]
   );
 
   useEffect(() => {
-    const hash = encodeState(tempo, tracks, darkMode);
+    const hash = encodeState(
+      tempo,
+      tracks,
+      darkMode,
+      rampOn ? ramp : null,
+      gapOn ? gap : null,
+      arrangementOn ? effectiveSections : null,
+      polymeter,
+      accentStrength,
+      masterVolume
+    );
     const base = `${window.location.pathname}${window.location.search}`;
     window.history.replaceState(null, "", `${base}${hash}`);
-  }, [tempo, tracks, darkMode]);
+  }, [
+    tempo,
+    tracks,
+    darkMode,
+    ramp,
+    rampOn,
+    gap,
+    gapOn,
+    arrangementOn,
+    effectiveSections,
+    polymeter,
+    accentStrength,
+    masterVolume,
+  ]);
 
   useEffect(() => {
     document.body.classList.toggle("poly420-dark", darkMode);
@@ -776,65 +1711,7 @@ export default function Poly420() {
 
       if (useHtmlAudioEngine) {
         const now = performance.now() / 1000;
-
-        const cycleDur = cycleDurationRef.current;
-        const tracksNow = audibleTracksRef.current;
-        const until = now + scheduleAhead;
-
-        if (transportAnchorRef.current === null) {
-          transportAnchorRef.current = now + 0.008;
-        }
-
-        if (restartTransportRef.current || startTimeRef.current === 0) {
-          clearPendingHtmlTimers();
-          const anchor = transportAnchorRef.current;
-          const elapsed = Math.max(0, now - anchor);
-          const nextCycle = Math.max(0, Math.floor(elapsed / cycleDur));
-          startTimeRef.current = anchor;
-          nextCycleRef.current = nextCycle;
-          scheduledUntilRef.current = anchor + nextCycle * cycleDur;
-          restartTransportRef.current = false;
-        }
-
-        while (scheduledUntilRef.current < until) {
-          const cycleIndex = nextCycleRef.current;
-          const cycleStart = startTimeRef.current + cycleIndex * cycleDur;
-
-          if (cycleStart < now - 0.2) {
-            restartTransportRef.current = true;
-            clearPendingHtmlTimers();
-            return;
-          }
-
-          const hitsByBeat = new Map<
-            number,
-            { accent: boolean; trackId: string }[]
-          >();
-
-          tracksNow.forEach((track) => {
-            for (let beat = 0; beat < track.beatsPerCycle; beat += 1) {
-              const beatMoment =
-                cycleStart + (cycleDur * beat) / track.beatsPerCycle;
-              const key = Math.round(beatMoment * 1000);
-              const bucket = hitsByBeat.get(key) ?? [];
-              bucket.push({
-                accent: beat === 0,
-                trackId: track.id,
-              });
-              hitsByBeat.set(key, bucket);
-            }
-          });
-
-          hitsByBeat.forEach((hits, key) => {
-            playSampleWithHtmlAudio({
-              when: key / 1000,
-              hits,
-            });
-          });
-
-          nextCycleRef.current += 1;
-          scheduledUntilRef.current = cycleStart + cycleDur;
-        }
+        if (scheduleHtmlUntil(now, now + scheduleAhead)) stopAudioHard();
         return;
       }
 
@@ -846,71 +1723,57 @@ export default function Poly420() {
 
       const now = performance.now() / 1000;
       const ctxOffset = ctx.currentTime - now;
-
-      if (transportAnchorRef.current === null) {
-        transportAnchorRef.current = now + 0.008;
-      }
-
-      const cycleDur = cycleDurationRef.current;
-      const tracksNow = audibleTracksRef.current;
-
-      if (restartTransportRef.current || startTimeRef.current === 0) {
-        // Restart transport cleanly without closing context
-        const anchor = transportAnchorRef.current;
-        const elapsed = Math.max(0, now - anchor);
-        const nextCycle = Math.max(0, Math.floor(elapsed / cycleDur));
-        startTimeRef.current = anchor;
-        nextCycleRef.current = nextCycle;
-        scheduledUntilRef.current = anchor + nextCycle * cycleDur;
-        restartTransportRef.current = false;
+      const transport = transportRef.current ?? beginTransport(now);
+
+      // Clicks already handed to WebAudio keep playing; tempo and beat edits
+      // take effect from the next cycle laid out here.
+      const { state, hits, cycles, ended } = advanceTransport(transport, {
+        now,
+        until: now + scheduleAhead,
+        cycleDuration: cycleDurationAt,
+        tracks: tracksForCycle,
+        isSilenced: isHitSilenced,
+        pulseOrigin: pulseOrigin(),
+      });
+      transportRef.current = state;
+      cycleTimelineRef.current = mergeTimeline(
+        cycleTimelineRef.current,
+        cycles,
+        now
+      );
+      if (ended && now >= state.cycleStart) {
+        stopAudioHard();
+        return;
       }
+      if (hits.length === 0) return;
 
-      const until = now + scheduleAhead;
-
-      // Schedule cycles until "until"
-      while (scheduledUntilRef.current < until) {
-        const cycleIndex = nextCycleRef.current;
-        const cycleStartPerf = startTimeRef.current + cycleIndex * cycleDur;
-        const cycleStart = cycleStartPerf + ctxOffset;
-
-        // If our cycleStart is already too far in the past (tab pause), realign
-        if (cycleStart < ctx.currentTime - 0.2) {
-          restartTransportRef.current = true;
-          return;
-        }
-
-        tracksNow.forEach((track) => {
-          const frequency = PITCHES[track.pitchIndex % PITCHES.length];
-          const existingGain = trackGainsRef.current.get(track.id);
-          const trackGain = existingGain ?? ctx.createGain();
-
-          const preamped = Math.max(
-            0,
-            Math.min(1.1, track.volume * 1.22 + 0.04)
-          );
-          trackGain.gain.value = preamped;
-          if (!existingGain) {
-            trackGain.connect(ctx.destination);
-            trackGainsRef.current.set(track.id, trackGain);
-          }
-
-          for (let beat = 0; beat < track.beatsPerCycle; beat += 1) {
-            const beatMoment =
-              cycleStartPerf + (cycleDur * beat) / track.beatsPerCycle;
-            scheduleClickWebAudio(
-              ctx,
-              beatMoment + ctxOffset,
-              frequency,
-              beat === 0,
-              track.beatsPerCycle,
-              trackGain
-            );
-          }
-        });
+      // In an arrangement each hit's cycle decides which section's track it is
+      const hitTracks = hits.map((hit) =>
+        tracksForCycle(hit.cycle).find((track) => track.id === hit.trackId)
+      );
+      new Set(hitTracks).forEach((track) => {
+        if (!track) return;
+        const trackGain =
+          trackGainsRef.current.get(track.id) ??
+          addTrackGain(ctx, track.id, track.pan);
+        trackGain.gain.value = preampTrackVolume(track.volume);
+        const panner = trackPannersRef.current.get(track.id);
+        if (panner) panner.pan.value = track.pan;
+      });
 
-        nextCycleRef.current += 1;
-        scheduledUntilRef.current = cycleStartPerf + cycleDur;
-      }
+      hits.forEach((hit, index) => {
+        const track = hitTracks[index];
+        if (!track) return;
+        scheduleTrackHitWebAudio(
+          ctx,
+          hit.time + ctxOffset,
+          track,
+          hit.accent,
+          trackGainsRef.current.get(track.id) ?? null,
+          trackSamplesRef.current.get(track.id)?.buffer ?? null,
+          hit.velocity
+        );
+      });
     };
 
     // Initial schedule immediately
@@ -918,9 +1781,12 @@ export default function Poly420() {
     interval = window.setInterval(schedule, tickMs);
 
     const onVisibility = () => {
-      // If we come back from background, timing jumps; restart on next scheduler tick.
+      // If we come back from background, timers may have fired late or not at all;
+      // re-lay the cycle in progress on the next tick. WebAudio clicks already
+      // scheduled stay valid, and advanceTransport skips ahead if the clock jumped.
+      if (!useHtmlAudioEngine) return;
       restartTransportRef.current = true;
-      if (useHtmlAudioEngine) clearPendingHtmlTimers();
+      clearPendingHtmlTimers();
     };
 
     window.addEventListener("visibilitychange", onVisibility);
@@ -934,36 +1800,117 @@ export default function Poly420() {
       // DO NOT close context here. Only Stop/unmount closes.
     };
   }, [
+    addTrackGain,
+    beginTransport,
     clearPendingHtmlTimers,
-    playSampleWithHtmlAudio,
+    cycleDurationAt,
+    isHitSilenced,
     playing,
+    pulseOrigin,
+    scheduleHtmlUntil,
+    stopAudioHard,
+    tracksForCycle,
     useHtmlAudioEngine,
   ]);
 
   // CSS progress loop (read-only; doesn't touch audio engine)
   useEffect(() => {
+    // Per-track polymeter progress would otherwise stay where it stopped
+    const clearTrackProgressCss = () => {
+      const { style } = document.documentElement;
+      Array.from(style)
+        .filter((name) => name.startsWith("--progress-"))
+        .forEach((name) => style.removeProperty(name));
+    };
+
+    const clearMeterCss = () => {
+      const { style } = document.documentElement;
+      style.removeProperty("--master-level");
+      style.removeProperty("--limiting");
+    };
+
+    // Peak of the last block on a dB scale, and how hard the limiter works
+    const meterData = new Float32Array(METER_FFT_SIZE);
+    const updateMeterCss = () => {
+      const bus = masterBusRef.current;
+      if (!bus) return;
+      bus.meter.getFloatTimeDomainData(meterData);
+      const peak = meterData.reduce(
+        (max, sample) => Math.max(max, Math.abs(sample)),
+        0
+      );
+      const db = peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+      const { style } = document.documentElement;
+      style.setProperty(
+        "--master-level",
+        Math.max(0, Math.min(1, 1 + db / METER_FLOOR_DB)).toString()
+      );
+      style.setProperty(
+        "--limiting",
+        Math.min(1, -bus.limiter.reduction / 6).toString()
+      );
+    };
+
     let frame: number | null = null;
 
     const update = () => {
       if (!playingRef.current) {
         setCycleProgressCss(0);
+        setGapSilent(false);
+        clearTrackProgressCss();
+        clearMeterCss();
+        setRealignIn(null);
         frame = null;
         return;
       }
 
-      const now = performance.now() / 1000;
-      const anchor = transportAnchorRef.current;
-
-      if (anchor === null || startTimeRef.current === 0) {
-        setCycleProgressCss(0);
-        frame = requestAnimationFrame(update);
-        return;
+      // Show where the audio is as heard, not as scheduled
+      const now = performance.now() / 1000 - outputOffset();
+      // Follow the cycles as the scheduler laid them out, so tempo changes
+      // move the meter at the same boundary the audio does
+      const span = cycleAt(cycleTimelineRef.current, now);
+      setCycleProgressCss(span ? (now - span.start) / span.duration : 0);
+      if (span) setLiveTempo(Math.round(600 / span.duration) / 10);
+      setGapSilent(Boolean(span && isGapCycleNow(span.cycle)));
+      updateMeterCss();
+
+      // Each track's own loop, for its meter; the global progress is one pulse
+      if (span && polymeterRef.current) {
+        const pulse =
+          span.cycle -
+          runOriginRef.current.cycle +
+          (now - span.start) / span.duration;
+        const tracksNow = audibleTracksRef.current;
+        tracksNow.forEach(({ id, beatsPerCycle }) => {
+          document.documentElement.style.setProperty(
+            `--progress-${id}`,
+            ((pulse % beatsPerCycle) / beatsPerCycle).toString()
+          );
+        });
+        const realignment = realignmentPulses(tracksNow);
+        setRealignIn(
+          (realignment - Math.floor(pulse % realignment)) % realignment
+        );
+      } else {
+        setRealignIn(null);
       }
 
-      const cycleDur = cycleDurationRef.current;
-      const elapsed = Math.max(0, now - anchor);
-      const position = cycleDur > 0 ? (elapsed % cycleDur) / cycleDur : 0;
-      setCycleProgressCss(position);
+      const arrangement = arrangementRef.current;
+      const position =
+        span && arrangement
+          ? sectionAt(arrangement, span.cycle - runOriginRef.current.cycle)
+          : null;
+      setPlayingSection(position?.index ?? null);
+      setSectionCycle(position?.cycle ?? 0);
+      if (span && position) {
+        document.documentElement.style.setProperty(
+          "--arrangement-progress",
+          (
+            (position.elapsed + (now - span.start) / span.duration) /
+            position.total
+          ).toString()
+        );
+      }
       frame = requestAnimationFrame(update);
     };
 
@@ -971,12 +1918,20 @@ export default function Poly420() {
       frame = requestAnimationFrame(update);
     } else {
       setCycleProgressCss(0);
+      clearTrackProgressCss();
+      clearMeterCss();
     }
 
     return () => {
       if (frame !== null) cancelAnimationFrame(frame);
     };
-  }, [playing, setCycleProgressCss, useHtmlAudioEngine]);
+  }, [
+    isGapCycleNow,
+    outputOffset,
+    playing,
+    setCycleProgressCss,
+    useHtmlAudioEngine,
+  ]);
 
   const togglePlay = async () => {
     if (playingRef.current) {
@@ -1002,50 +1957,9 @@ export default function Poly420() {
 
     if (useHtmlAudioEngine) {
       const now = performance.now() / 1000;
-      const cycleDur = cycleDurationRef.current;
-      const tracksNow = audibleTracksRef.current;
-
-      const startAt = transportAnchorRef.current ?? now + 0.008;
-      transportAnchorRef.current = startAt;
-      startTimeRef.current = startAt;
-      nextCycleRef.current = Math.max(
-        0,
-        Math.floor((now - startAt) / cycleDur)
-      );
-      scheduledUntilRef.current = startAt + nextCycleRef.current * cycleDur;
-      restartTransportRef.current = false;
-
-      const firstCycleStart =
-        startAt + nextCycleRef.current * cycleDur + 0.003; /* headroom */
-
-      const hitsByBeat = new Map<
-        number,
-        { accent: boolean; trackId: string }[]
-      >();
-
-      tracksNow.forEach((track) => {
-        for (let beat = 0; beat < track.beatsPerCycle; beat += 1) {
-          const beatMoment =
-            firstCycleStart + (cycleDur * beat) / track.beatsPerCycle;
-          const key = Math.round(beatMoment * 1000);
-          const bucket = hitsByBeat.get(key) ?? [];
-          bucket.push({
-            accent: beat === 0,
-            trackId: track.id,
-          });
-          hitsByBeat.set(key, bucket);
-        }
-      });
-
-      hitsByBeat.forEach((hits, key) => {
-        playSampleWithHtmlAudio({
-          when: key / 1000,
-          hits,
-        });
-      });
-
-      nextCycleRef.current += 1;
-      scheduledUntilRef.current = firstCycleStart + cycleDur;
+      transportAnchorRef.current = transportAnchorRef.current ?? now + 0.008;
+      // Lay out the first cycle inside the gesture so iOS lets the pool play
+      scheduleHtmlUntil(now, now + cycleDurationRef.current);
 
       setPlaying(true);
       return;
@@ -1062,16 +1976,8 @@ export default function Poly420() {
 
       // Start playing only after audio is actually running
       const now = performance.now() / 1000;
-      const anchor = transportAnchorRef.current ?? now + 0.008;
-      transportAnchorRef.current = anchor;
-      startTimeRef.current = anchor;
-      nextCycleRef.current = Math.max(
-        0,
-        Math.floor((now - anchor) / cycleDurationRef.current)
-      );
-      scheduledUntilRef.current =
-        anchor + nextCycleRef.current * cycleDurationRef.current;
-      restartTransportRef.current = true;
+      transportAnchorRef.current = transportAnchorRef.current ?? now + 0.008;
+      transportRef.current = null;
       setPlaying(true);
     } catch (e) {
       console.warn("[poly420] Unable to start audio (needs user gesture?)", e);
@@ -1080,36 +1986,382 @@ export default function Poly420() {
     }
   };
 
+  // Listens on the running AudioContext and scores detected onsets live
+  const startListening = async () => {
+    const ctx = audioContextRef.current;
+    if (!ctx || ctx.state !== "running" || micRef.current) return;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        },
+      });
+      const source = ctx.createMediaStreamSource(stream);
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 2048;
+      source.connect(analyser);
+
+      const settings = stream.getAudioTracks()[0]?.getSettings() as
+        | (MediaTrackSettings & { latency?: number })
+        | undefined;
+      const inputLatency = settings?.latency ?? 0;
+      const detector = createOnsetDetector(ctx.sampleRate);
+      const samples = new Float32Array(analyser.fftSize);
+      let lastRead = ctx.currentTime;
+
+      const timer = window.setInterval(() => {
+        const fresh = Math.min(
+          samples.length,
+          Math.round((ctx.currentTime - lastRead) * ctx.sampleRate)
+        );
+        if (fresh <= 0) return;
+        lastRead = ctx.currentTime;
+        analyser.getFloatTimeDomainData(samples);
+
+        // The analyser's newest sample is "now"; the player reaches us input
+        // latency after they hit. registerNote accounts for output latency.
+        const chunkStart = performance.now() / 1000 - fresh / ctx.sampleRate;
+        detector
+          .process(samples.subarray(samples.length - fresh), chunkStart)
+          .forEach((onset) => registerNote(onset - inputLatency));
+      }, MIC_POLL_MS);
+
+      micRef.current = { stream, source, timer };
+      setListening(true);
+    } catch (error) {
+      console.warn("[poly420] Microphone unavailable", error);
+    }
+  };
+
+  const startCalibration = async () => {
+    if (playingRef.current) {
+      stopAudioHard();
+      playingRef.current = false;
+    }
+    // Swap in the steady click before the first cycle is laid out
+    calibrationRef.current = [];
+    setCalibrationTaps(0);
+    cycleDurationRef.current = CALIBRATION_CYCLE_SEC;
+    audibleTracksRef.current = [CALIBRATION_TRACK];
+    rampRef.current = null;
+    gapRef.current = null;
+    arrangementRef.current = null;
+    await togglePlay();
+  };
+
+  const resetLatencyOffset = () => {
+    const offsets = { ...latencyOffsets };
+    delete offsets[audioEngine];
+    saveLatencyOffsets(offsets);
+    setLatencyOffsets(offsets);
+  };
+
+  // Scores a recording that starts on a cycle downbeat at the current tempo
+  const analyzeRecording = async (file: File) => {
+    if (!scoredTrack) return;
+    setAnalyzing(true);
+    try {
+      const decoder = new OfflineAudioContext(1, 1, EXPORT_SAMPLE_RATE);
+      const buffer = await decoder.decodeAudioData(await file.arrayBuffer());
+      const onsets = detectOnsets(buffer.getChannelData(0), buffer.sampleRate);
+      const cycleDur = 60 / tempo;
+      const timeline = Array.from(
+        { length: Math.ceil(buffer.duration / cycleDur) + 1 },
+        (_, cycle) => ({ cycle, start: cycle * cycleDur, duration: cycleDur })
+      );
+      addScoredNotes(
+        onsets
+          .map((onset) =>
+            scoreNote(timeline, scoredTrack, onset, polymeter ? 0 : undefined)
+          )
+          .filter((note): note is ScoredNote => note !== null)
+      );
+    } catch (error) {
+      console.warn("[poly420] Unable to analyze recording", error);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
   const updateTempo = (next: number) => {
     setTempo(clampTempo(next));
   };
 
+  const updatePresets = (next: Preset[]) => {
+    savePresets(next);
+    setPresets(next);
+  };
+
+  const selectedUserIndex = selectedPreset.startsWith("u")
+    ? Number(selectedPreset.slice(1))
+    : -1;
+
+  const loadPreset = (key: string) => {
+    setSelectedPreset(key);
+    const preset =
+      key[0] === "b"
+        ? BUILT_IN_PRESETS[Number(key.slice(1))]
+        : presets[Number(key.slice(1))];
+    if (!preset) return;
+    const { state, error } = parseState(preset.state);
+    reserveTrackIds(state);
+    setHashError(error);
+    setTempo(state.tempo);
+    setTracks(state.tracks);
+    if (key[0] === "u") setPresetName(preset.name);
+  };
+
+  // Presets hold tempo and tracks only; theme and practice modes stay as they are
+  const saveCurrentPreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const next = upsertPreset(presets, {
+      name,
+      state: encodeState(
+        tempo,
+        tracks,
+        true,
+        null,
+        null,
+        null,
+        false,
+        DEFAULT_ACCENT_STRENGTH,
+        DEFAULT_MASTER_VOLUME
+      ),
+    });
+    updatePresets(next);
+    setSelectedPreset(`u${next.findIndex((preset) => preset.name === name)}`);
+  };
+
+  const renamePreset = () => {
+    const name = presetName.trim();
+    if (!name || selectedUserIndex < 0) return;
+    const renamed = presets.map((preset, index) =>
+      index === selectedUserIndex ? { ...preset, name } : preset
+    );
+    // Renaming onto another preset's name replaces that one
+    const next = renamed.filter(
+      (preset, index) => index === selectedUserIndex || preset.name !== name
+    );
+    updatePresets(next);
+    setSelectedPreset(`u${next.findIndex((preset) => preset.name === name)}`);
+  };
+
+  const deletePreset = () => {
+    if (selectedUserIndex < 0) return;
+    updatePresets(presets.filter((_, index) => index !== selectedUserIndex));
+    setSelectedPreset("");
+  };
+
+  const exportPresets = () => {
+    downloadBlob(
+      new Blob([presetLibraryJson(presets)], { type: "application/json" }),
+      "poly420-presets.json"
+    );
+  };
+
+  const importPresets = async (file: File) => {
+    try {
+      const imported = parsePresetLibrary(await file.text()).filter(
+        (preset) => parseState(preset.state).error === null
+      );
+      updatePresets(imported.reduce(upsertPreset, presets));
+    } catch (error) {
+      console.warn("[poly420] Unable to import presets", error);
+    }
+  };
+
+  const loadSection = (section: Section) => {
+    setTempo(section.tempo);
+    setTracks(section.tracks);
+  };
+
+  const toggleArrangement = () => {
+    if (!arrangementOn && sections.length === 0) {
+      setSections([{ tempo, tracks, repeats: DEFAULT_SECTION_REPEATS }]);
+      setEditingSection(0);
+    }
+    setArrangementOn((prev) => !prev);
+  };
+
+  const selectSection = (index: number) => {
+    if (index === editingSection) return;
+    setSections(effectiveSections);
+    setEditingSection(index);
+    loadSection(effectiveSections[index]);
+  };
+
+  // New sections start as a copy of the one being edited
+  const addSection = () => {
+    setSections([
+      ...effectiveSections,
+      { tempo, tracks, repeats: DEFAULT_SECTION_REPEATS },
+    ]);
+    setEditingSection(effectiveSections.length);
+  };
+
+  const removeSection = (index: number) => {
+    if (effectiveSections.length <= 1) return;
+    const next = effectiveSections.filter((_, i) => i !== index);
+    const nextEditing = Math.min(index, next.length - 1);
+    setSections(next);
+    setEditingSection(nextEditing);
+    loadSection(next[nextEditing]);
+  };
+
+  const updateSectionRepeats = (index: number, repeats: number) => {
+    const safeRepeats = Math.min(
+      MAX_SECTION_REPEATS,
+      Math.max(1, Math.round(repeats) || 1)
+    );
+    setSections(
+      effectiveSections.map((section, i) =>
+        i === index ? { ...section, repeats: safeRepeats } : section
+      )
+    );
+  };
+
+  const updateRamp = (patch: Partial<TempoRamp>) => {
+    setRamp((prev) => {
+      const next = { ...prev, ...patch };
+      return {
+        ...next,
+        step: Math.min(60, Math.max(1, Math.round(next.step) || 1)),
+        every: Math.min(64, Math.max(1, Math.round(next.every) || 1)),
+        target: clampTempo(next.target || DEFAULT_TEMPO),
+      };
+    });
+  };
+
+  // A polymeter exports pulses rather than cycles
+  const maxExportLength = polymeter ? MAX_EXPORT_PULSES : MAX_EXPORT_CYCLES;
+  const exportLength = Math.min(exportCycles, maxExportLength);
+  const wavTooLong =
+    exportSeconds(tempo, exportLength, exportCountIn, polymeter) >
+    MAX_EXPORT_SEC;
+
+  const exportWav = async () => {
+    if (exporting || wavTooLong) return;
+    setExporting(true);
+    setExportError(null);
+    try {
+      const { channels, sampleRate } = await renderPolyrhythmOffline({
+        tempo,
+        tracks: audibleTracks,
+        cycles: exportLength,
+        countIn: exportCountIn,
+        userSamples,
+        masterVolume,
+        polymeter,
+      });
+      downloadBlob(
+        new Blob([encodeWav(channels, sampleRate)], { type: "audio/wav" }),
+        `${exportBaseName(tempo, tracks, polymeter)}.wav`
+      );
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportMidi = () => {
+    const bytes = makeMidiFile({
+      tempo,
+      tracks: audibleTracks.filter((track) => track.volume > 0),
+      cycles: exportLength,
+      polymeter,
+    });
+    downloadBlob(
+      new Blob([bytes], { type: "audio/midi" }),
+      `${exportBaseName(tempo, tracks, polymeter)}.mid`
+    );
+  };
+
   const addTrack = () => {
-    const pitchIndex = tracks.length % PITCHES.length;
     const newTrack: Track = {
-      id: `track-${trackCounter++}`,
+      id: nextTrackId(),
       beatsPerCycle: 2,
-      pitchIndex,
+      pattern: defaultPattern(2),
+      pitch: defaultPitch(tracks.length),
+      voice: DEFAULT_VOICE,
       volume: DEFAULT_VOLUME,
       muted: false,
       deafened: false,
+      gapped: false,
+      swing: 0,
+      humanize: 0,
+      flat: false,
+      pan: 0,
+      span: null,
+      parentId: null,
     };
-    setTracks((prev) => applyPitchOrder([...prev, newTrack]));
+    setTracks((prev) => [...prev, newTrack]);
+  };
+
+  const duplicateTrack = (id: string) => {
+    setTracks((prev) => {
+      const index = prev.findIndex((track) => track.id === id);
+      if (index < 0) return prev;
+      const copy = {
+        ...prev[index],
+        id: nextTrackId(),
+        pattern: [...prev[index].pattern],
+      };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  };
+
+  const moveTrack = (id: string, toIndex: number) => {
+    setTracks((prev) => {
+      const from = prev.findIndex((track) => track.id === id);
+      const to = Math.max(0, Math.min(prev.length - 1, toIndex));
+      if (from < 0 || from === to) return prev;
+      const next = prev.filter((track) => track.id !== id);
+      next.splice(to, 0, prev[from]);
+      return next;
+    });
   };
 
   const removeTrack = (id: string) => {
     setTracks((prev) =>
-      applyPitchOrder(prev.filter((track) => track.id !== id))
+      prev
+        .filter((track) => track.id !== id)
+        .map((track) =>
+          track.parentId === id ? { ...track, parentId: null } : track
+        )
     );
   };
 
   const updateTrackBeats = (id: string, beats: number) => {
     const safeBeats = Math.max(1, Math.round(beats));
     setTracks((prev) =>
-      applyPitchOrder(
-        prev.map((track) =>
-          track.id === id ? { ...track, beatsPerCycle: safeBeats } : track
-        )
+      prev.map((track) =>
+        track.id === id
+          ? {
+              ...track,
+              beatsPerCycle: safeBeats,
+              pattern: resizePattern(track.pattern, safeBeats),
+            }
+          : track
+      )
+    );
+  };
+
+  const toggleStep = (id: string, beat: number) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id
+          ? {
+              ...track,
+              pattern: track.pattern.map((step, index) =>
+                index === beat ? NEXT_STEP[step] : step
+              ),
+            }
+          : track
       )
     );
   };
@@ -1117,38 +2369,226 @@ export default function Poly420() {
   const updateTrackVolume = (id: string, volume: number) => {
     const safeVolume = Math.min(1, Math.max(0, volume));
     setTracks((prev) =>
-      applyPitchOrder(
-        prev.map((track) =>
-          track.id === id ? { ...track, volume: safeVolume } : track
-        )
+      prev.map((track) =>
+        track.id === id ? { ...track, volume: safeVolume } : track
+      )
+    );
+  };
+
+  const updateTrackPan = (id: string, pan: number) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id ? { ...track, pan: clampPan(pan) } : track
       )
     );
   };
 
   const toggleMute = (id: string) => {
     setTracks((prev) =>
-      applyPitchOrder(
-        prev.map((track) =>
-          track.id === id
-            ? { ...track, muted: !track.muted, deafened: false }
-            : track
-        )
+      prev.map((track) =>
+        track.id === id
+          ? { ...track, muted: !track.muted, deafened: false }
+          : track
+      )
+    );
+  };
+
+  const toggleFlat = (id: string) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id ? { ...track, flat: !track.flat } : track
       )
     );
   };
 
+  const toggleGapped = (id: string) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id ? { ...track, gapped: !track.gapped } : track
+      )
+    );
+  };
+
+  const updateTrackPitch = (id: string, pitch: number) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id ? { ...track, pitch: clampPitch(pitch) } : track
+      )
+    );
+  };
+
+  const updateTrackSwing = (id: string, swing: number) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id ? { ...track, swing: clampSwing(swing) } : track
+      )
+    );
+  };
+
+  const updateTrackHumanize = (id: string, humanize: number) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id
+          ? { ...track, humanize: clampHumanize(humanize) }
+          : track
+      )
+    );
+  };
+
+  const updateTrackSpan = (id: string, span: TrackSpan | null) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id
+          ? { ...track, span: span && clampSpan(span), parentId: null }
+          : track
+      )
+    );
+  };
+
+  const updateTrackParent = (id: string, parentId: string | null) => {
+    setTracks((prev) =>
+      prev.map((track) =>
+        track.id === id ? { ...track, parentId, span: null } : track
+      )
+    );
+  };
+
+  // "whole", "part" or the id of the track being subdivided
+  const changeSpanMode = (track: Track, mode: string) => {
+    if (mode === "whole") {
+      updateTrackSpan(track.id, null);
+    } else if (mode === "part") {
+      const reference = tracks.find((other) => other.id !== track.id);
+      const of = reference?.beatsPerCycle ?? 4;
+      updateTrackSpan(track.id, {
+        from: 0,
+        length: Math.max(1, Math.floor(of / 2)),
+        of,
+      });
+    } else {
+      updateTrackParent(track.id, mode);
+    }
+  };
+
+  const updateTrackVoice = (id: string, voice: Voice) => {
+    setTracks((prev) =>
+      prev.map((track) => (track.id === id ? { ...track, voice } : track))
+    );
+  };
+
+  // Decodes an uploaded sound into a short mono buffer for the "sample" voice
+  const loadUserSample = async (trackId: string, file: File) => {
+    try {
+      const decoder = new OfflineAudioContext(1, 1, EXPORT_SAMPLE_RATE);
+      const decoded = await decoder.decodeAudioData(await file.arrayBuffer());
+      const length = Math.min(
+        decoded.length,
+        Math.round(MAX_USER_SAMPLE_SEC * decoded.sampleRate)
+      );
+      const buffer = new AudioBuffer({
+        length,
+        numberOfChannels: 1,
+        sampleRate: decoded.sampleRate,
+      });
+      buffer.copyToChannel(decoded.getChannelData(0).slice(0, length), 0);
+      setUserSamples((prev) =>
+        new Map(prev).set(trackId, { name: file.name, buffer })
+      );
+      // HTML audio caches rendered WAVs; drop the ones made from the old file
+      samplesRef.current.forEach((_, key) => {
+        if (key.startsWith(`sample:${trackId}:`)) {
+          samplesRef.current.delete(key);
+        }
+      });
+    } catch (error) {
+      console.warn("[poly420] Unable to load sample", error);
+    }
+  };
+
+  const updateGap = (patch: Partial<GapPattern>) => {
+    setGap((prev) => {
+      const next = { ...prev, ...patch };
+      return {
+        ...next,
+        play: Math.min(64, Math.max(1, Math.round(next.play) || 1)),
+        silent: Math.min(64, Math.max(1, Math.round(next.silent) || 1)),
+      };
+    });
+  };
+
   const toggleDeafen = (id: string) => {
     setTracks((prev) =>
-      applyPitchOrder(
-        prev.map((track) =>
-          track.id === id
-            ? { ...track, deafened: !track.deafened, muted: false }
-            : track
-        )
+      prev.map((track) =>
+        track.id === id
+          ? { ...track, deafened: !track.deafened, muted: false }
+          : track
       )
     );
   };
 
+  // In polymeter mode every track's beat is a pulse, so taps always are too
+  const tapTrack = polymeter
+    ? undefined
+    : tracks.find((track) => track.id === tapUnit);
+
+  const tapTempo = (time: number) => {
+    const tapsPerCycle = tapTrack?.beatsPerCycle ?? 1;
+    tapTempoRef.current = addTap(
+      tapTempoRef.current,
+      time,
+      60000 / (MIN_TEMPO * tapsPerCycle)
+    );
+    const next = tempoFromTaps(tapTempoRef.current, tapsPerCycle);
+    if (next !== null) updateTempo(next);
+  };
+
+  // Re-subscribed every render so the handler always sees current state
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      if (keyBelongsToControl(event.target, event.key)) return;
+      if (event.key === "Escape" && showShortcuts) {
+        setShowShortcuts(false);
+        return;
+      }
+      const action = shortcutFor(event);
+      if (!action || (event.repeat && action.type !== "tempo")) return;
+      const selected = tracks.find((track) => track.id === selectedTrackId);
+      event.preventDefault();
+      switch (action.type) {
+        case "play":
+          void togglePlay();
+          break;
+        case "tempo":
+          updateTempo(tempo + action.delta);
+          break;
+        case "select":
+          if (tracks[action.index]) setSelectedTrackId(tracks[action.index].id);
+          break;
+        case "mute":
+          if (selected) toggleMute(selected.id);
+          break;
+        case "focus":
+          if (selected) toggleDeafen(selected.id);
+          break;
+        case "add":
+          addTrack();
+          break;
+        case "remove":
+          if (selected) removeTrack(selected.id);
+          break;
+        case "tap":
+          tapTempo(event.timeStamp);
+          break;
+        case "help":
+          setShowShortcuts((prev) => !prev);
+          break;
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
   return (
     <div className={`poly420-shell ${darkMode ? "dark" : ""}`}>
       <div className="page">
@@ -1159,6 +2599,19 @@ export default function Poly420() {
         </div>
 
         <div className="surface">
+          {hashError && (
+            <div className="hash-error" role="alert">
+              <span>Some of this link couldn't be read: {hashError}</span>
+              <button
+                className="chip"
+                onClick={() => setHashError(null)}
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+
           <div className="transport">
             <button
               className={`play-toggle ${playing ? "active" : ""}`}
@@ -1183,7 +2636,13 @@ export default function Poly420() {
                   onFocus={(event) => event.target.showPicker?.()}
                   onChange={(event) => updateTempo(Number(event.target.value))}
                 />
+                <span className="unit">{polymeter ? "bpm" : "cpm"}</span>
               </div>
+              {playing && (rampOn || arrangementOn) && (
+                <span className="live-tempo" aria-live="polite">
+                  {liveTempo}
+                </span>
+              )}
             </div>
 
             <div className="transport-side">
@@ -1197,6 +2656,25 @@ export default function Poly420() {
                 </span>
               </button>
 
+              <button
+                className="icon-button"
+                onClick={() => setCircularView((prev) => !prev)}
+                aria-pressed={circularView}
+                aria-label={
+                  circularView ? "Show linear view" : "Show circular view"
+                }
+              >
+                {circularView ? "☰" : "◎"}
+              </button>
+
+              <button
+                className="icon-button"
+                onClick={() => setShowShortcuts(true)}
+                aria-label="Keyboard shortcuts"
+              >
+                ⌨️
+              </button>
+
               <button
                 className="icon-button"
                 onClick={() => setDarkMode((prev) => !prev)}
@@ -1207,10 +2685,598 @@ export default function Poly420() {
             </div>
           </div>
 
-          <div className="tracks">
-            {tracks.map((track) => {
+          <div className="practice-row">
+            <button
+              className="chip"
+              onPointerDown={(event) => tapTempo(event.timeStamp)}
+              aria-label="Tap tempo (or press T)"
+            >
+              👆 Tap tempo
+            </button>
+            <label className="sr-only" htmlFor="tap-unit">
+              Each tap is
+            </label>
+            {polymeter ? (
+              <span className="label">Taps are pulses</span>
+            ) : (
+              <select
+                id="tap-unit"
+                value={tapTrack ? tapTrack.id : "cycle"}
+                onChange={(event) => {
+                  setTapUnit(event.target.value);
+                  tapTempoRef.current = [];
+                }}
+              >
+                <option value="cycle">Taps are cycles</option>
+                {tracks.map((track, index) => (
+                  <option key={track.id} value={track.id}>
+                    Taps are track {index + 1} beats ({track.beatsPerCycle})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="practice-row">
+            <button
+              className={`chip ${polymeter ? "active" : ""}`}
+              onClick={() => setPolymeter((prev) => !prev)}
+              aria-pressed={polymeter}
+              title="Tempo becomes a shared pulse and each track loops over its own beats"
+            >
+              〰️ Polymeter
+            </button>
+            {polymeter && (
+              <span className="label" aria-live="polite">
+                Tracks realign every {realignment} pulses
+                {playing &&
+                  realignIn !== null &&
+                  (realignIn === 0
+                    ? " · aligned now"
+                    : ` · next in ${realignIn}`)}
+              </span>
+            )}
+          </div>
+
+          <div className="practice-row">
+            <label className="label" htmlFor="accent-strength">
+              Accents
+            </label>
+            <div className="slider-wrap">
+              <input
+                id="accent-strength"
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={accentStrength}
+                onChange={(event) =>
+                  setAccentStrength(
+                    clampAccentStrength(Number(event.target.value))
+                  )
+                }
+              />
+            </div>
+            <span className="unit">
+              {accentStrength > 0
+                ? `${Math.round(accentStrength * 100)}%`
+                : "Off"}
+            </span>
+          </div>
+
+          <div className="practice-row">
+            <label className="label" htmlFor="master-volume">
+              Master
+            </label>
+            <div className="slider-wrap">
+              <input
+                id="master-volume"
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={masterVolume}
+                onChange={(event) =>
+                  setMasterVolume(clampMasterVolume(Number(event.target.value)))
+                }
+              />
+            </div>
+            <span className="unit">{Math.round(masterVolume * 100)}%</span>
+            <div className="level-meter" title="Output level" aria-hidden />
+            <span className="limiter-light" title="Limiting" aria-hidden />
+          </div>
+
+          <div className="practice-row preset-row">
+            <label className="sr-only" htmlFor="preset-select">
+              Preset
+            </label>
+            <select
+              id="preset-select"
+              value={selectedPreset}
+              onChange={(event) => loadPreset(event.target.value)}
+            >
+              <option value="" disabled>
+                Presets
+              </option>
+              <optgroup label="Built-in">
+                {BUILT_IN_PRESETS.map((preset, index) => (
+                  <option key={preset.name} value={`b${index}`}>
+                    {preset.name}
+                  </option>
+                ))}
+              </optgroup>
+              {presets.length > 0 && (
+                <optgroup label="Saved">
+                  {presets.map((preset, index) => (
+                    <option key={preset.name} value={`u${index}`}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <label className="sr-only" htmlFor="preset-name">
+              Preset name
+            </label>
+            <input
+              id="preset-name"
+              type="text"
+              placeholder="Name"
+              value={presetName}
+              onChange={(event) => setPresetName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") saveCurrentPreset();
+              }}
+            />
+            <button
+              className="chip"
+              onClick={saveCurrentPreset}
+              disabled={!presetName.trim()}
+              aria-label="Save preset"
+            >
+              💾
+            </button>
+            {selectedUserIndex >= 0 && (
+              <>
+                <button
+                  className="chip"
+                  onClick={renamePreset}
+                  disabled={!presetName.trim()}
+                  aria-label="Rename preset"
+                >
+                  ✏️
+                </button>
+                <button
+                  className="chip danger"
+                  onClick={deletePreset}
+                  aria-label="Delete preset"
+                >
+                  🗑️
+                </button>
+              </>
+            )}
+            <button
+              className="chip"
+              onClick={exportPresets}
+              disabled={presets.length === 0}
+              aria-label="Export presets"
+            >
+              ⬇️
+            </button>
+            <label className="chip" aria-label="Import presets">
+              📂
+              <input
+                className="sr-only"
+                type="file"
+                accept="application/json,.json"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  event.target.value = "";
+                  if (file) void importPresets(file);
+                }}
+              />
+            </label>
+          </div>
+
+          <div className="practice-row">
+            <button
+              className={`chip ${arrangementOn ? "active" : ""}`}
+              onClick={toggleArrangement}
+              aria-pressed={arrangementOn}
+              title="Chain sections with their own tempo and tracks"
+            >
+              🎼 Arrange
+            </button>
+            {arrangementOn && (
+              <>
+                {effectiveSections.map((section, index) => (
+                  <div
+                    key={index}
+                    className={`section-chip ${
+                      playing && playingSection === index ? "playing" : ""
+                    }`}
+                  >
+                    <button
+                      className={`chip ${
+                        index === editingSection ? "active" : ""
+                      }`}
+                      onClick={() => selectSection(index)}
+                      aria-pressed={index === editingSection}
+                      aria-label={`Edit section ${index + 1}`}
+                    >
+                      {index + 1}
+                    </button>
+                    <label
+                      className="sr-only"
+                      htmlFor={`section-${index}-repeats`}
+                    >
+                      Cycles in section {index + 1}
+                    </label>
+                    <input
+                      id={`section-${index}-repeats`}
+                      type="number"
+                      min={1}
+                      max={MAX_SECTION_REPEATS}
+                      inputMode="numeric"
+                      value={section.repeats}
+                      onChange={(event) =>
+                        updateSectionRepeats(index, Number(event.target.value))
+                      }
+                    />
+                  </div>
+                ))}
+                <button
+                  className="chip"
+                  onClick={addSection}
+                  aria-label="Add section"
+                >
+                  ➕
+                </button>
+                {effectiveSections.length > 1 && (
+                  <button
+                    className="chip danger"
+                    onClick={() => removeSection(editingSection)}
+                    aria-label={`Remove section ${editingSection + 1}`}
+                  >
+                    🗑️
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+
+          {arrangementOn && playing && playingSection !== null && (
+            <div className="arrangement-status" aria-live="polite">
+              <span>
+                Section {playingSection + 1} · cycle {sectionCycle + 1}/
+                {effectiveSections[playingSection]?.repeats}
+              </span>
+              <div className="arrangement-progress" aria-hidden="true">
+                <div className="arrangement-progress-fill" />
+              </div>
+            </div>
+          )}
+
+          <div className="practice-row">
+            <button
+              className={`chip ${rampOn ? "active" : ""}`}
+              onClick={() => setRampOn((prev) => !prev)}
+              aria-pressed={rampOn}
+            >
+              📈 Ramp
+            </button>
+            {rampOn && (
+              <>
+                <label className="label" htmlFor="ramp-step">
+                  +
+                </label>
+                <input
+                  id="ramp-step"
+                  type="number"
+                  min={1}
+                  max={60}
+                  inputMode="numeric"
+                  value={ramp.step}
+                  onChange={(event) =>
+                    updateRamp({ step: Number(event.target.value) })
+                  }
+                />
+                <label className="label" htmlFor="ramp-every">
+                  every
+                </label>
+                <input
+                  id="ramp-every"
+                  type="number"
+                  min={1}
+                  max={64}
+                  inputMode="numeric"
+                  value={ramp.every}
+                  onChange={(event) =>
+                    updateRamp({ every: Number(event.target.value) })
+                  }
+                />
+                <label className="label" htmlFor="ramp-target">
+                  to
+                </label>
+                <input
+                  id="ramp-target"
+                  type="number"
+                  min={1}
+                  max={240}
+                  inputMode="numeric"
+                  value={ramp.target}
+                  onChange={(event) =>
+                    updateRamp({ target: Number(event.target.value) })
+                  }
+                />
+                <button
+                  className={`chip ${ramp.down ? "active" : ""}`}
+                  onClick={() => updateRamp({ down: !ramp.down })}
+                  aria-pressed={ramp.down}
+                  aria-label="Ramp back down"
+                >
+                  ↩️
+                </button>
+                <button
+                  className="chip"
+                  onClick={() => updateRamp({ stopAtEnd: !ramp.stopAtEnd })}
+                  aria-label={
+                    ramp.stopAtEnd ? "Stop at the end" : "Hold at the end"
+                  }
+                >
+                  {ramp.stopAtEnd ? "⏹" : "⏸"}
+                </button>
+              </>
+            )}
+          </div>
+
+          <div className="practice-row">
+            <button
+              className={`chip ${gapOn ? "active" : ""}`}
+              onClick={() => setGapOn((prev) => !prev)}
+              aria-pressed={gapOn}
+            >
+              🤫 Gap
+            </button>
+            {gapOn && (
+              <>
+                <label className="label" htmlFor="gap-play">
+                  play
+                </label>
+                <input
+                  id="gap-play"
+                  type="number"
+                  min={1}
+                  max={64}
+                  inputMode="numeric"
+                  value={gap.play}
+                  onChange={(event) =>
+                    updateGap({ play: Number(event.target.value) })
+                  }
+                />
+                <label className="label" htmlFor="gap-silent">
+                  silent
+                </label>
+                <input
+                  id="gap-silent"
+                  type="number"
+                  min={1}
+                  max={64}
+                  inputMode="numeric"
+                  value={gap.silent}
+                  onChange={(event) =>
+                    updateGap({ silent: Number(event.target.value) })
+                  }
+                />
+                <button
+                  className={`chip ${gap.random ? "active" : ""}`}
+                  onClick={() => updateGap({ random: !gap.random })}
+                  aria-pressed={gap.random}
+                  aria-label="Randomize gaps"
+                >
+                  🎲
+                </button>
+                {gapSilent && (
+                  <span className="gap-indicator" aria-live="polite">
+                    silent
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="practice-row">
+            <button
+              className={`chip ${scoredTrack ? "active" : ""}`}
+              onClick={() => {
+                setScoreTrackId(scoredTrack ? null : tracks[0]?.id ?? null);
+                setScoredNotes([]);
+              }}
+              aria-pressed={Boolean(scoredTrack)}
+            >
+              🎯 Score
+            </button>
+            {scoredTrack && (
+              <>
+                <label className="sr-only" htmlFor="score-track">
+                  Track to score
+                </label>
+                <select
+                  id="score-track"
+                  value={scoredTrack.id}
+                  onChange={(event) => {
+                    setScoreTrackId(event.target.value);
+                    setScoredNotes([]);
+                  }}
+                >
+                  {tracks.map((track, index) => (
+                    <option key={track.id} value={track.id}>
+                      Track {index + 1} ({track.beatsPerCycle})
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="chip"
+                  onClick={() => setScoredNotes([])}
+                  aria-label="Reset score"
+                >
+                  ↺
+                </button>
+              </>
+            )}
+          </div>
+
+          <div className="practice-row">
+            <button
+              className={`chip ${calibrating ? "active" : ""}`}
+              onClick={calibrating ? stopAudioHard : startCalibration}
+              aria-pressed={calibrating}
+              title="Tap along to a steady click to measure audio latency"
+            >
+              ⏱️ Calibrate
+            </button>
+            <span className="latency-readout">
+              {latencyOffset === undefined
+                ? "not calibrated"
+                : `${formatMs(latencyOffset)} (${
+                    useHtmlAudioEngine ? "HTML audio" : "WebAudio"
+                  })`}
+            </span>
+            {latencyOffset !== undefined && !calibrating && (
+              <button
+                className="chip"
+                onClick={resetLatencyOffset}
+                aria-label="Reset latency offset"
+              >
+                ↺
+              </button>
+            )}
+          </div>
+
+          {calibrating && (
+            <div className="score-panel">
+              <button
+                className="tap-pad"
+                onPointerDown={(event) =>
+                  registerCalibrationTap(event.timeStamp)
+                }
+                aria-label={`Tap with the click (or press ${TAP_KEY.toUpperCase()})`}
+              >
+                Tap with the click · {calibrationTaps}/{CALIBRATION_TAPS}
+              </button>
+            </div>
+          )}
+
+          {scoredTrack && scoreStats && (
+            <div className="score-panel">
+              <button
+                className="tap-pad"
+                onPointerDown={(event) => registerTap(event.timeStamp)}
+                aria-label={`Tap along (or press ${TAP_KEY.toUpperCase()})`}
+              >
+                {playing
+                  ? `Tap or press ${TAP_KEY.toUpperCase()}`
+                  : "Press ▶ first"}
+              </button>
+              <div className="score-sources">
+                <button
+                  className={`chip ${listening ? "active" : ""}`}
+                  onClick={listening ? stopListening : startListening}
+                  disabled={!playing && !listening}
+                  aria-pressed={listening}
+                  title="Headphones keep the click out of the mic"
+                >
+                  🎤 {listening ? "Listening" : "Listen"}
+                </button>
+                <label className={`chip ${analyzing ? "busy" : ""}`}>
+                  📂 Recording
+                  <input
+                    className="sr-only"
+                    type="file"
+                    accept="audio/*"
+                    disabled={analyzing}
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      event.target.value = "";
+                      if (file) void analyzeRecording(file);
+                    }}
+                  />
+                </label>
+              </div>
+              <div className="score-summary" aria-live="polite">
+                <span>{scoreStats.count} taps</span>
+                <span>
+                  {formatMs(scoreStats.mean)} ±{" "}
+                  {Math.round(scoreStats.spread * 1000)} ms
+                </span>
+                <span>
+                  {tendency(scoreStats)} · {scoreStats.early} early /{" "}
+                  {scoreStats.late} late
+                </span>
+              </div>
+              <div className="score-beats" aria-label="Mean offset per beat">
+                {scoreStats.perBeat.map((beat) => (
+                  <div
+                    key={beat.beat}
+                    className="score-beat"
+                    title={`Beat ${beat.beat + 1}: ${formatMs(beat.mean)} (${
+                      beat.count
+                    })`}
+                  >
+                    <div
+                      className={`score-bar ${
+                        beat.mean < 0 ? "early" : "late"
+                      }`}
+                      style={{
+                        ["--offset" as string]: Math.min(
+                          1,
+                          Math.abs(beat.mean) / SCORE_RANGE_SEC
+                        ).toString(),
+                      }}
+                    />
+                    <span className="score-count">{beat.count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {circularView && (
+            <CircularView
+              tracks={audibleTracks}
+              polymeter={polymeter}
+              onToggleStep={toggleStep}
+            />
+          )}
+
+          <div className={`tracks ${circularView ? "circular" : ""}`}>
+            {tracks.map((track, trackIndex) => {
+              // Spans don't apply to polymeters
+              const span = polymeter ? null : placedTracks[trackIndex].span;
+              const segments = (span?.repeats ?? 1) * track.beatsPerCycle;
               return (
-                <div key={track.id} className="track-card">
+                <div
+                  key={track.id}
+                  className={`track-card ${
+                    draggingTrackId === track.id ? "dragging" : ""
+                  } ${
+                    dropTargetId === track.id && draggingTrackId !== track.id
+                      ? "drop-target"
+                      : ""
+                  } ${selectedTrackId === track.id ? "selected" : ""}`}
+                  onPointerDown={() => setSelectedTrackId(track.id)}
+                  onDragOver={(event) => {
+                    if (!draggingTrackId) return;
+                    event.preventDefault();
+                    setDropTargetId(track.id);
+                  }}
+                  onDrop={(event) => {
+                    event.preventDefault();
+                    if (draggingTrackId) moveTrack(draggingTrackId, trackIndex);
+                    setDraggingTrackId(null);
+                    setDropTargetId(null);
+                  }}
+                >
                   <div className="control-column">
                     <div className="control-row tight">
                       <div className="beat-control">
@@ -1236,32 +3302,114 @@ export default function Poly420() {
                             )
                           }
                         />
-                        <div className="beat-visualization" aria-hidden="true">
-                          {Array.from({ length: track.beatsPerCycle }).map(
-                            (_, index) => (
-                              <div
+                        <div
+                          className={`beat-visualization ${
+                            span ? "spanned" : ""
+                          }`}
+                          role="group"
+                          aria-label="Steps"
+                          style={{
+                            ...(span && {
+                              ["--span-start" as string]: (
+                                span.from / span.of
+                              ).toString(),
+                              ["--span-length" as string]: (
+                                span.length / span.of
+                              ).toString(),
+                              ["--beats" as string]: segments.toString(),
+                            }),
+                            // Follows the track's own loop instead of the pulse
+                            ...(polymeter && {
+                              ["--cycle-progress" as string]: `var(--progress-${track.id}, 0)`,
+                            }),
+                          }}
+                        >
+                          {/* A subdividing track shows its pattern once per parent beat */}
+                          {Array.from({ length: segments }, (_, index) => {
+                            const beat = index % track.beatsPerCycle;
+                            const step = track.pattern[beat];
+                            return (
+                              <button
                                 key={index}
-                                className={`beat-segment ${
+                                type="button"
+                                className={`beat-segment step-${step} ${
                                   snapBeats ? "snap" : ""
                                 }`}
+                                aria-label={`Step ${beat + 1}: ${step}`}
+                                onClick={() => toggleStep(track.id, beat)}
                                 style={{
                                   ["--index" as any]: index.toString(),
-                                  ["--beats" as any]:
-                                    track.beatsPerCycle.toString(),
+                                  ["--beats" as any]: segments.toString(),
                                 }}
                               />
-                            )
-                          )}
+                            );
+                          })}
                         </div>
                       </div>
 
-                      <button
-                        className="chip danger"
-                        onClick={() => removeTrack(track.id)}
-                        aria-label="Remove track"
-                      >
-                        🗑️
-                      </button>
+                      <div className="track-actions">
+                        <button
+                          className={`chip ${track.flat ? "active" : ""}`}
+                          onClick={() => toggleFlat(track.id)}
+                          aria-pressed={track.flat}
+                          aria-label="No accents"
+                        >
+                          ➖
+                        </button>
+                        {gapOn && (
+                          <button
+                            className={`chip ${track.gapped ? "active" : ""}`}
+                            onClick={() => toggleGapped(track.id)}
+                            aria-pressed={track.gapped}
+                            aria-label="Silence during gaps"
+                          >
+                            🤫
+                          </button>
+                        )}
+                        <button
+                          className="chip drag-handle"
+                          draggable
+                          onDragStart={(event) => {
+                            event.dataTransfer.effectAllowed = "move";
+                            event.dataTransfer.setData("text/plain", track.id);
+                            setDraggingTrackId(track.id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggingTrackId(null);
+                            setDropTargetId(null);
+                          }}
+                          onKeyDown={(event) => {
+                            const step =
+                              event.key === "ArrowUp"
+                                ? -1
+                                : event.key === "ArrowDown"
+                                ? 1
+                                : 0;
+                            if (!step) return;
+                            event.preventDefault();
+                            moveTrack(track.id, trackIndex + step);
+                          }}
+                          aria-label={`Move track ${
+                            trackIndex + 1
+                          } (drag, or use the arrow keys)`}
+                        >
+                          ↕
+                        </button>
+                        <button
+                          className="chip"
+                          onClick={() => duplicateTrack(track.id)}
+                          aria-label="Duplicate track"
+                        >
+                          ⧉
+                        </button>
+                        <button
+                          className="chip danger"
+                          onClick={() => removeTrack(track.id)}
+                          aria-label="Remove track"
+                        >
+                          🗑️
+                        </button>
+                      </div>
                     </div>
 
                     <div className="control-row">
@@ -1304,13 +3452,436 @@ export default function Poly420() {
                         📣
                       </button>
                     </div>
+
+                    <div className="control-row">
+                      <label className="unit" htmlFor={`${track.id}-pan`}>
+                        Pan
+                      </label>
+                      <div className="slider-wrap">
+                        <input
+                          id={`${track.id}-pan`}
+                          type="range"
+                          min={-1}
+                          max={1}
+                          step={0.05}
+                          value={track.pan}
+                          onChange={(event) =>
+                            updateTrackPan(track.id, Number(event.target.value))
+                          }
+                          onDoubleClick={() => updateTrackPan(track.id, 0)}
+                        />
+                      </div>
+                      <span className="unit">
+                        {track.pan === 0
+                          ? "C"
+                          : `${track.pan < 0 ? "L" : "R"} ${Math.round(
+                              Math.abs(track.pan) * 100
+                            )}`}
+                      </span>
+                    </div>
+
+                    <div className="control-row">
+                      <label className="sr-only" htmlFor={`${track.id}-note`}>
+                        Note
+                      </label>
+                      <select
+                        id={`${track.id}-note`}
+                        value={
+                          midiToFrequency(frequencyToMidi(track.pitch)).toFixed(
+                            2
+                          ) === track.pitch.toFixed(2)
+                            ? frequencyToMidi(track.pitch)
+                            : ""
+                        }
+                        onChange={(event) =>
+                          updateTrackPitch(
+                            track.id,
+                            midiToFrequency(Number(event.target.value))
+                          )
+                        }
+                      >
+                        <option value="" disabled>
+                          Custom
+                        </option>
+                        {PICKER_NOTES.map((note) => (
+                          <option key={note} value={note}>
+                            {noteName(note)} ({note})
+                          </option>
+                        ))}
+                      </select>
+                      <label className="sr-only" htmlFor={`${track.id}-pitch`}>
+                        Pitch (Hz)
+                      </label>
+                      {/* Committed on blur/Enter so partial values aren't clamped while typing */}
+                      <input
+                        key={`${track.id}-${track.pitch}`}
+                        id={`${track.id}-pitch`}
+                        className="pitch-input"
+                        type="number"
+                        min={MIN_PITCH}
+                        max={MAX_PITCH}
+                        step="any"
+                        inputMode="decimal"
+                        defaultValue={track.pitch}
+                        onBlur={(event) =>
+                          updateTrackPitch(track.id, Number(event.target.value))
+                        }
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") event.currentTarget.blur();
+                        }}
+                      />
+                      <span className="unit">Hz</span>
+                    </div>
+
+                    <div className="control-row">
+                      <label className="sr-only" htmlFor={`${track.id}-voice`}>
+                        Voice
+                      </label>
+                      <select
+                        id={`${track.id}-voice`}
+                        value={track.voice}
+                        onChange={(event) =>
+                          updateTrackVoice(
+                            track.id,
+                            event.target.value as Voice
+                          )
+                        }
+                      >
+                        {VOICES.map((voice) => (
+                          <option key={voice.id} value={voice.id}>
+                            {voice.label}
+                          </option>
+                        ))}
+                      </select>
+                      {track.voice === "sample" && (
+                        <label
+                          className="chip sample-chip"
+                          title="Sounds longer than a second are trimmed"
+                        >
+                          📂 {userSamples.get(track.id)?.name ?? "Load sample"}
+                          <input
+                            className="sr-only"
+                            type="file"
+                            accept="audio/*"
+                            onChange={(event) => {
+                              const file = event.target.files?.[0];
+                              event.target.value = "";
+                              if (file) void loadUserSample(track.id, file);
+                            }}
+                          />
+                        </label>
+                      )}
+                    </div>
+
+                    <div className="control-row">
+                      <label className="unit" htmlFor={`${track.id}-swing`}>
+                        Swing
+                      </label>
+                      <div className="slider-wrap">
+                        <input
+                          id={`${track.id}-swing`}
+                          type="range"
+                          min={0}
+                          max={MAX_SWING}
+                          step={0.01}
+                          value={track.swing}
+                          onChange={(event) =>
+                            updateTrackSwing(
+                              track.id,
+                              Number(event.target.value)
+                            )
+                          }
+                        />
+                      </div>
+                      <span className="unit">
+                        {Math.round(track.swing * 100)}%
+                      </span>
+                      <label className="unit" htmlFor={`${track.id}-humanize`}>
+                        Humanize
+                      </label>
+                      <div className="slider-wrap">
+                        <input
+                          id={`${track.id}-humanize`}
+                          type="range"
+                          min={0}
+                          max={MAX_HUMANIZE_MS}
+                          step={1}
+                          value={track.humanize}
+                          onChange={(event) =>
+                            updateTrackHumanize(
+                              track.id,
+                              Number(event.target.value)
+                            )
+                          }
+                        />
+                      </div>
+                      <span className="unit">±{track.humanize} ms</span>
+                    </div>
+
+                    {!polymeter && (
+                      <div className="control-row">
+                        <label className="sr-only" htmlFor={`${track.id}-span`}>
+                          Span
+                        </label>
+                        <select
+                          id={`${track.id}-span`}
+                          value={
+                            track.parentId &&
+                            tracks.some(({ id }) => id === track.parentId)
+                              ? track.parentId
+                              : track.span
+                              ? "part"
+                              : "whole"
+                          }
+                          onChange={(event) =>
+                            changeSpanMode(track, event.target.value)
+                          }
+                        >
+                          <option value="whole">Whole cycle</option>
+                          <option value="part">Part of the cycle</option>
+                          {tracks.map((other, otherIndex) =>
+                            other.id === track.id ? null : (
+                              <option key={other.id} value={other.id}>
+                                Each beat of track {otherIndex + 1}
+                              </option>
+                            )
+                          )}
+                        </select>
+                        {track.span && (
+                          <span className="span-inputs">
+                            <span className="unit">beats</span>
+                            <input
+                              type="number"
+                              min={1}
+                              max={track.span.of}
+                              value={track.span.from + 1}
+                              aria-label="First beat of the span"
+                              onChange={(event) =>
+                                track.span &&
+                                updateTrackSpan(track.id, {
+                                  ...track.span,
+                                  from: Number(event.target.value) - 1,
+                                })
+                              }
+                            />
+                            <span className="unit">to</span>
+                            <input
+                              type="number"
+                              min={track.span.from + 1}
+                              max={track.span.of}
+                              value={track.span.from + track.span.length}
+                              aria-label="Last beat of the span"
+                              onChange={(event) =>
+                                track.span &&
+                                updateTrackSpan(track.id, {
+                                  ...track.span,
+                                  length:
+                                    Number(event.target.value) -
+                                    track.span.from,
+                                })
+                              }
+                            />
+                            <span className="unit">of</span>
+                            <input
+                              type="number"
+                              min={1}
+                              max={64}
+                              value={track.span.of}
+                              aria-label="Beats the cycle is split into"
+                              onChange={(event) =>
+                                track.span &&
+                                updateTrackSpan(track.id, {
+                                  ...track.span,
+                                  of: Number(event.target.value),
+                                })
+                              }
+                            />
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               );
             })}
           </div>
+
+          {!polymeter && compositeTracks.length > 1 && (
+            <div className="composite-lane">
+              <div className="composite-header">
+                <span className="label">
+                  Composite · {compositeSteps} steps
+                </span>
+                <button
+                  className={`chip ${compositeOnly ? "active" : ""}`}
+                  onClick={() => setCompositeOnly((prev) => !prev)}
+                  aria-pressed={compositeOnly}
+                  disabled={!composite && !compositeOnly}
+                >
+                  🔊 Composite only
+                </button>
+              </div>
+              {!composite ? (
+                <p className="composite-note">
+                  Too dense to build or play as one voice; the tracks play as
+                  usual.
+                </p>
+              ) : composite.steps <= MAX_DRAWN_COMPOSITE_STEPS ? (
+                <div
+                  className="composite-grid"
+                  style={{
+                    ["--steps" as string]: composite.steps.toString(),
+                  }}
+                >
+                  {composite.lanes.map((lane, laneIndex) =>
+                    lane.hits.map((hit, step) => (
+                      <span
+                        key={`${lane.id}-${step}`}
+                        className={`composite-cell ${hit ? "hit" : ""}`}
+                        style={{
+                          gridRow: laneIndex + 1,
+                          gridColumn: step + 1,
+                          ["--index" as string]: step.toString(),
+                          ["--beats" as string]: composite.steps.toString(),
+                        }}
+                      />
+                    ))
+                  )}
+                  {composite.onsets.map((onset, index) => (
+                    <span
+                      key={onset.step}
+                      className={`composite-onset ${
+                        onset.level === "accent" ? "accent" : ""
+                      }`}
+                      title={`${onset.gap} steps to the next onset`}
+                      style={{
+                        gridRow: composite.lanes.length + 1,
+                        gridColumn: `${onset.step + 1} / span ${Math.min(
+                          onset.gap,
+                          composite.steps - onset.step
+                        )}`,
+                      }}
+                    >
+                      {mnemonic?.[index] ?? onset.gap}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="composite-note">
+                  Too many steps to draw; it still plays.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="export-row">
+            <label className="label" htmlFor="export-cycles">
+              {polymeter ? "Pulses" : "Cycles"}
+            </label>
+            <input
+              id="export-cycles"
+              type="number"
+              min={1}
+              max={maxExportLength}
+              inputMode="numeric"
+              pattern="[0-9]*"
+              value={exportLength}
+              onChange={(event) =>
+                setExportCycles(
+                  Math.min(
+                    maxExportLength,
+                    Math.max(1, Math.round(Number(event.target.value)) || 1)
+                  )
+                )
+              }
+            />
+            <button
+              className={`chip ${exportCountIn ? "active" : ""}`}
+              onClick={() => setExportCountIn((prev) => !prev)}
+              aria-pressed={exportCountIn}
+            >
+              Count-in
+            </button>
+            <button
+              className="chip"
+              onClick={exportWav}
+              disabled={exporting || wavTooLong}
+              aria-label="Export WAV"
+              title={
+                wavTooLong
+                  ? `WAV exports are limited to ${
+                      MAX_EXPORT_SEC / 60
+                    } minutes; export fewer ${
+                      polymeter ? "pulses" : "cycles"
+                    } or raise the tempo`
+                  : undefined
+              }
+            >
+              ⬇️ WAV
+            </button>
+            <button
+              className="chip"
+              onClick={exportMidi}
+              aria-label="Export MIDI"
+            >
+              ⬇️ MIDI
+            </button>
+            {wavTooLong && (
+              <span className="label">
+                Over {MAX_EXPORT_SEC / 60} min: too long for WAV
+              </span>
+            )}
+          </div>
+          {exportError && (
+            <div className="export-error" role="alert">
+              <span>WAV export failed: {exportError}</span>
+              <button
+                className="chip"
+                onClick={() => setExportError(null)}
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+          )}
         </div>
       </div>
+
+      {showShortcuts && (
+        <div
+          className="shortcuts-overlay"
+          onClick={() => setShowShortcuts(false)}
+        >
+          <div
+            className="shortcuts-card"
+            role="dialog"
+            aria-label="Keyboard shortcuts"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="shortcuts-header">
+              <h2>Keyboard shortcuts</h2>
+              <button
+                className="chip"
+                onClick={() => setShowShortcuts(false)}
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+            <dl>
+              {SHORTCUTS.map(({ keys, label }) => (
+                <div key={keys} className="shortcut">
+                  <dt>
+                    <kbd>{keys}</kbd>
+                  </dt>
+                  <dd>{label}</dd>
+                </div>
+              ))}
+            </dl>
+            <p className="label">Off while typing in a field.</p>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { createOnsetDetector, detectOnsets } from "./onsets";
+
+const SAMPLE_RATE = 44100;
+
+// A second of silence with a short decaying 1 kHz click at each time
+const clicks = (times: number[]) => {
+  const samples = new Float32Array(SAMPLE_RATE);
+  times.forEach((time) => {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < 0.01 * SAMPLE_RATE; i += 1) {
+      samples[start + i] +=
+        0.8 *
+        Math.exp(-i / (0.002 * SAMPLE_RATE)) *
+        Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+    }
+  });
+  return samples;
+};
+
+describe("detectOnsets", () => {
+  it("finds clicks in silence", () => {
+    const onsets = detectOnsets(clicks([0.2, 0.5, 0.8]), SAMPLE_RATE);
+    expect(onsets).toHaveLength(3);
+    [0.2, 0.5, 0.8].forEach((time, index) =>
+      expect(onsets[index]).toBeCloseTo(time, 3)
+    );
+  });
+
+  it("ignores a second click inside the refractory period", () => {
+    // 30 ms after the first, under the default 80 ms
+    const onsets = detectOnsets(clicks([0.2, 0.23, 0.5]), SAMPLE_RATE);
+    expect(onsets).toHaveLength(2);
+    expect(onsets[0]).toBeCloseTo(0.2, 3);
+    expect(onsets[1]).toBeCloseTo(0.5, 3);
+  });
+
+  it("finds the same onsets when fed chunk by chunk", () => {
+    const samples = clicks([0.2, 0.5, 0.8]);
+    const detector = createOnsetDetector(SAMPLE_RATE);
+    const chunk = 1000;
+    const onsets: number[] = [];
+    for (let start = 0; start < samples.length; start += chunk) {
+      onsets.push(
+        ...detector.process(
+          samples.subarray(start, start + chunk),
+          start / SAMPLE_RATE
+        )
+      );
+    }
+    const whole = detectOnsets(samples, SAMPLE_RATE);
+    expect(onsets).toHaveLength(whole.length);
+    whole.forEach((time, index) => expect(onsets[index]).toBeCloseTo(time, 9));
+  });
+});
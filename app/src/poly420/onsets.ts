@@ -0,0 +1,90 @@
+// Percussive onset detection on raw samples. Works the same on a live stream fed
+// chunk by chunk (mic through an AnalyserNode) and on a whole recorded buffer.
+
+export type OnsetOptions = {
+  // Samples per analysis frame (~5.8 ms at 44.1 kHz)
+  frameSize: number;
+  // Frame energy must exceed the running background by this factor
+  ratio: number;
+  // Absolute floor so silence and hiss never trigger
+  minEnergy: number;
+  // Seconds after an onset during which no new onset is reported
+  refractory: number;
+};
+
+export const DEFAULT_ONSET_OPTIONS: OnsetOptions = {
+  frameSize: 256,
+  ratio: 4,
+  minEnergy: 0.0004,
+  refractory: 0.08,
+};
+
+export function createOnsetDetector(
+  sampleRate: number,
+  options: Partial<OnsetOptions> = {}
+) {
+  const { frameSize, ratio, minEnergy, refractory } = {
+    ...DEFAULT_ONSET_OPTIONS,
+    ...options,
+  };
+  let background = minEnergy;
+  let lastOnset = -Infinity;
+  let pending = new Float32Array(0);
+  let pendingStart = 0;
+
+  // `startTime` is the time of samples[0]; returns onset times on that clock
+  const process = (samples: Float32Array, startTime: number) => {
+    const joined = new Float32Array(pending.length + samples.length);
+    joined.set(pending);
+    joined.set(samples, pending.length);
+    const joinedStart = pending.length ? pendingStart : startTime;
+
+    const onsets: number[] = [];
+    let offset = 0;
+    for (; offset + frameSize <= joined.length; offset += frameSize) {
+      let energy = 0;
+      let peak = 0;
+      for (let i = offset; i < offset + frameSize; i += 1) {
+        energy += joined[i] * joined[i];
+        peak = Math.max(peak, Math.abs(joined[i]));
+      }
+      energy /= frameSize;
+
+      const frameTime = joinedStart + offset / sampleRate;
+      if (
+        energy > minEnergy &&
+        energy > background * ratio &&
+        frameTime - lastOnset >= refractory
+      ) {
+        // Refine to the first sample that reaches half the frame peak
+        let attack = offset;
+        while (
+          attack < offset + frameSize &&
+          Math.abs(joined[attack]) < peak / 2
+        ) {
+          attack += 1;
+        }
+        lastOnset = joinedStart + attack / sampleRate;
+        onsets.push(lastOnset);
+      }
+
+      // Track the background slowly so a ringing hit doesn't retrigger
+      background = Math.max(minEnergy, background * 0.9 + energy * 0.1);
+    }
+
+    pending = joined.slice(offset);
+    pendingStart = joinedStart + offset / sampleRate;
+    return onsets;
+  };
+
+  return { process };
+}
+
+// Onset times in seconds from the start of `samples`
+export function detectOnsets(
+  samples: Float32Array,
+  sampleRate: number,
+  options: Partial<OnsetOptions> = {}
+) {
+  return createOnsetDetector(sampleRate, options).process(samples, 0);
+}
@@ -0,0 +1,63 @@
+// Named setups kept in localStorage. A preset stores the same string the URL
+// hash uses, so encodeState/parseState stay the only serialization.
+
+export type Preset = {
+  name: string;
+  state: string;
+};
+
+const STORAGE_KEY = "poly420.presets";
+const LIBRARY_VERSION = 1;
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  { name: "3:2", state: "#tracks=3|2" },
+  { name: "4:3", state: "#tracks=4|3" },
+  { name: "5:4", state: "#tracks=5|4" },
+  { name: "7:4", state: "#tracks=7|4" },
+  { name: "5:3:2", state: "#tracks=5|3|2" },
+];
+
+// Drops anything that isn't a { name, state } pair with a non-empty name
+function readPresets(value: unknown): Preset[] {
+  const list = Array.isArray(value)
+    ? value
+    : (value as { presets?: unknown } | null)?.presets;
+  if (!Array.isArray(list)) return [];
+  return list.flatMap((entry) => {
+    const { name, state } = (entry ?? {}) as Partial<Preset>;
+    if (typeof name !== "string" || typeof state !== "string") return [];
+    return name.trim() ? [{ name: name.trim(), state }] : [];
+  });
+}
+
+export function loadPresets(): Preset[] {
+  try {
+    return readPresets(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]"));
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: Preset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, presetLibraryJson(presets));
+  } catch {
+    // Private mode or storage full; the library still lives for this session
+  }
+}
+
+export function presetLibraryJson(presets: Preset[]) {
+  return JSON.stringify({ version: LIBRARY_VERSION, presets }, null, 2);
+}
+
+// Throws if `json` isn't JSON at all; unusable entries are skipped
+export function parsePresetLibrary(json: string) {
+  return readPresets(JSON.parse(json));
+}
+
+// Adds `preset`, replacing any saved preset with the same name
+export function upsertPreset(presets: Preset[], preset: Preset) {
+  const index = presets.findIndex((entry) => entry.name === preset.name);
+  if (index < 0) return [...presets, preset];
+  return presets.map((entry, i) => (i === index ? preset : entry));
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { sectionTrackId, trackInSection } from "./arrangement";
+import { scoreNote, summarizeNotes } from "./scoring";
+import type { CycleSpan, TransportTrack } from "./transport";
+
+const four: TransportTrack = {
+  id: "four",
+  beatsPerCycle: 4,
+  pattern: ["accent", "on", "off", "on"],
+};
+const three: TransportTrack = {
+  id: "three",
+  beatsPerCycle: 3,
+  pattern: ["accent", "on", "on"],
+};
+
+// One-second cycles from 0
+const timeline = (count: number): CycleSpan[] =>
+  Array.from({ length: count }, (_, cycle) => ({
+    cycle,
+    start: cycle,
+    duration: 1,
+  }));
+
+describe("scoreNote", () => {
+  it("scores against the nearest step of a track", () => {
+    const note = scoreNote(timeline(2), four, 1.27);
+    expect(note?.beat).toBe(1);
+    expect(note?.error).toBeCloseTo(0.02);
+  });
+
+  it("scores the selected track, not the composite voice", () => {
+    // Composite-only schedules one merged voice; the taps follow `three`
+    const mix = [four, three];
+    const note = scoreNote(
+      timeline(1),
+      () => mix.find((track) => track.id === "three") ?? null,
+      0.35
+    );
+    expect(note?.beat).toBe(1);
+    expect(note?.error).toBeCloseTo(0.35 - 1 / 3);
+  });
+
+  it("skips rests", () => {
+    // Nearest to the silent beat 2 at 0.5, so scored against beat 1
+    const note = scoreNote(timeline(1), four, 0.45);
+    expect(note?.beat).toBe(1);
+    expect(note?.error).toBeCloseTo(0.2);
+  });
+
+  it("scores each cycle of an arrangement against its section", () => {
+    const sections = [
+      { repeats: 1, tracks: [{ ...four, id: sectionTrackId(0, "a") }] },
+      { repeats: 1, tracks: [{ ...three, id: sectionTrackId(1, "a") }] },
+    ];
+    const inSection = (cycle: number) => trackInSection(sections, cycle, "a");
+    // 1.35 is nearer 1.33 in the second section's 3 beats than 1.25 in 4
+    const note = scoreNote(timeline(2), inSection, 1.35);
+    expect(note?.beat).toBe(1);
+    expect(note?.error).toBeCloseTo(0.35 - 1 / 3);
+  });
+
+  it("scores polymeter pulses by the track's own beat", () => {
+    // Pulses 0 1 2 3 fall on beats 0 1 2 0
+    const note = scoreNote(timeline(4), three, 3.1, 0);
+    expect(note).toEqual({ error: expect.closeTo(0.1), beat: 0 });
+  });
+
+  it("skips cycles where the track doesn't play", () => {
+    const sections = [
+      { repeats: 1, tracks: [{ ...four, id: sectionTrackId(0, "a") }] },
+      { repeats: 1, tracks: [{ ...three, id: sectionTrackId(1, "b") }] },
+    ];
+    const inSection = (cycle: number) => trackInSection(sections, cycle, "b");
+    expect(scoreNote(timeline(1), inSection, 0.5)).toBeNull();
+    expect(scoreNote(timeline(2), inSection, 0.5)?.beat).toBe(0);
+  });
+});
+
+describe("summarizeNotes", () => {
+  it("keeps beats past the current track's count", () => {
+    const stats = summarizeNotes(
+      [
+        { error: 0.02, beat: 1 },
+        { error: -0.01, beat: 4 },
+      ],
+      3
+    );
+    expect(stats.perBeat.map((beat) => beat.count)).toEqual([0, 1, 0, 0, 1]);
+    expect(stats.perBeat[4].mean).toBe(-0.01);
+  });
+});
@@ -0,0 +1,123 @@
+// Pure helpers that score played notes (taps, detected onsets) against a track.
+// Times are in seconds on the scheduler's clock; errors are negative when early.
+
+import {
+  beatFraction,
+  spanRepeats,
+  type CycleSpan,
+  type TransportTrack,
+} from "./transport";
+
+export type ScoredNote = {
+  error: number;
+  beat: number;
+};
+
+export type BeatStats = {
+  beat: number;
+  count: number;
+  mean: number;
+};
+
+export type ScoreStats = {
+  count: number;
+  mean: number;
+  spread: number;
+  early: number;
+  late: number;
+  perBeat: BeatStats[];
+};
+
+// Within this many seconds of the beat a note counts as neither early nor late
+export const ON_TIME_WINDOW = 0.01;
+
+// Either the same track every cycle or the track as scheduled in each cycle
+// (null where it doesn't play)
+export type ScoredTrack =
+  | TransportTrack
+  | ((cycle: number) => TransportTrack | null);
+
+// Matches `time` to the nearest sounding step of `track` in the laid-out cycles.
+// With `pulseOrigin`, cycles are polymeter pulses counted from that cycle.
+export function scoreNote(
+  timeline: CycleSpan[],
+  scored: ScoredTrack,
+  time: number,
+  pulseOrigin?: number
+): ScoredNote | null {
+  let best: ScoredNote | null = null;
+  const consider = (expected: number, beat: number) => {
+    const error = time - expected;
+    if (!best || Math.abs(error) < Math.abs(best.error)) {
+      best = { error, beat };
+    }
+  };
+  timeline.forEach((span) => {
+    const track = typeof scored === "function" ? scored(span.cycle) : scored;
+    if (!track) return;
+    if (pulseOrigin !== undefined) {
+      const beats = track.beatsPerCycle;
+      const beat = (((span.cycle - pulseOrigin) % beats) + beats) % beats;
+      if ((track.pattern[beat] ?? "on") === "off") return;
+      const swing = beat % 2 === 1 ? track.swing ?? 0 : 0;
+      consider(span.start + span.duration * swing, beat);
+      return;
+    }
+    const repeats = spanRepeats(track);
+    for (let index = 0; index < repeats * track.beatsPerCycle; index += 1) {
+      const beat = index % track.beatsPerCycle;
+      if ((track.pattern[beat] ?? "on") === "off") continue;
+      // Swing and spans move the beat; humanize jitter doesn't
+      consider(
+        span.start +
+          span.duration *
+            beatFraction(track, beat, Math.floor(index / track.beatsPerCycle)),
+        beat
+      );
+    }
+  });
+  return best;
+}
+
+export function summarizeNotes(
+  notes: ScoredNote[],
+  beatsPerCycle: number
+): ScoreStats {
+  const count = notes.length;
+  const mean = count ? notes.reduce((sum, n) => sum + n.error, 0) / count : 0;
+  const variance = count
+    ? notes.reduce((sum, n) => sum + (n.error - mean) ** 2, 0) / count
+    : 0;
+
+  // Sections of an arrangement can give the track more beats than it has now
+  const beats = notes.reduce(
+    (most, note) => Math.max(most, note.beat + 1),
+    beatsPerCycle
+  );
+  const perBeat = Array.from({ length: beats }, (_, beat) => {
+    const onBeat = notes.filter((n) => n.beat === beat);
+    return {
+      beat,
+      count: onBeat.length,
+      mean: onBeat.length
+        ? onBeat.reduce((sum, n) => sum + n.error, 0) / onBeat.length
+        : 0,
+    };
+  });
+
+  return {
+    count,
+    mean,
+    spread: Math.sqrt(variance),
+    early: notes.filter((n) => n.error < -ON_TIME_WINDOW).length,
+    late: notes.filter((n) => n.error > ON_TIME_WINDOW).length,
+    perBeat,
+  };
+}
+
+export function tendency(stats: ScoreStats) {
+  if (stats.count === 0 || Math.abs(stats.mean) <= ON_TIME_WINDOW) {
+    return "on time";
+  }
+  return stats.mean < 0 ? "early" : "late";
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { shortcutFor } from "./shortcuts";
+
+const press = (key: string, modifiers: Partial<KeyboardEvent> = {}) =>
+  shortcutFor({
+    key,
+    shiftKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    ...modifiers,
+  });
+
+describe("shortcutFor", () => {
+  it("removes the selected track on Delete only", () => {
+    expect(press("Delete")).toEqual({ type: "remove" });
+    expect(press("Backspace")).toBeNull();
+  });
+
+  it("leaves modified keys to the browser", () => {
+    expect(press("Delete", { ctrlKey: true })).toBeNull();
+    expect(press("ArrowUp", { shiftKey: true })).toEqual({
+      type: "tempo",
+      delta: 10,
+    });
+  });
+});
@@ -0,0 +1,66 @@
+// Global keyboard shortcuts. Matching is kept apart from the component so the
+// help overlay and the handler read from the same table.
+
+export type ShortcutAction =
+  | { type: "play" }
+  | { type: "tempo"; delta: number }
+  | { type: "select"; index: number }
+  | { type: "mute" }
+  | { type: "focus" }
+  | { type: "add" }
+  | { type: "remove" }
+  | { type: "tap" }
+  | { type: "help" };
+
+export const SHORTCUTS: { keys: string; label: string }[] = [
+  { keys: "Space", label: "Play / stop" },
+  { keys: "↑ / ↓", label: "Tempo ±1" },
+  { keys: "Shift + ↑ / ↓", label: "Tempo ±10" },
+  { keys: "1 – 9", label: "Select track" },
+  { keys: "M", label: "Mute selected track" },
+  { keys: "F", label: "Focus selected track" },
+  { keys: "+", label: "Add track" },
+  { keys: "Delete", label: "Remove selected track" },
+  { keys: "T", label: "Tap tempo" },
+  { keys: "?", label: "Show / hide shortcuts" },
+];
+
+type KeyPress = Pick<
+  KeyboardEvent,
+  "key" | "shiftKey" | "ctrlKey" | "metaKey" | "altKey"
+>;
+
+// Browser and OS shortcuts keep their modifiers; only Shift is ours
+export function shortcutFor(event: KeyPress): ShortcutAction | null {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  const key = event.key;
+  if (key === " ") return { type: "play" };
+  if (key === "ArrowUp" || key === "ArrowDown") {
+    const size = event.shiftKey ? 10 : 1;
+    return { type: "tempo", delta: key === "ArrowUp" ? size : -size };
+  }
+  if (/^[1-9]$/.test(key)) return { type: "select", index: Number(key) - 1 };
+  if (key === "+" || key === "=") return { type: "add" };
+  // Not Backspace: removing can't be undone, and it is easy to hit by mistake
+  if (key === "Delete") return { type: "remove" };
+  if (key === "?") return { type: "help" };
+  switch (key.toLowerCase()) {
+    case "m":
+      return { type: "mute" };
+    case "f":
+      return { type: "focus" };
+    case "t":
+      return { type: "tap" };
+  }
+  return null;
+}
+
+// Text fields, selects and sliders own their keys; so does a focused button
+// for Space, which would otherwise press it as well
+export function keyBelongsToControl(target: EventTarget | null, key: string) {
+  const element = target as HTMLElement | null;
+  if (!element?.closest) return false;
+  if (element.isContentEditable) return true;
+  if (element.closest("input, select, textarea")) return true;
+  return key === " " && element.closest("button") !== null;
+}
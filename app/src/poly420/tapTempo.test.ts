@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { addTap, TAP_RESET_MS, tempoFromTaps } from "./tapTempo";
+
+// Taps are cycles at the slowest tempo, 1 cpm
+const SLOWEST_MS = 60000;
+
+const tapAll = (times: number[], slowestMs = SLOWEST_MS) =>
+  times.reduce<number[]>((taps, time) => addTap(taps, time, slowestMs), []);
+
+describe("tap tempo", () => {
+  it("counts slow taps at and below the default tempo", () => {
+    expect(tempoFromTaps(tapAll([0, 2050, 4100, 6150]), 1)).toBeCloseTo(
+      60000 / 2050
+    );
+    expect(tempoFromTaps(tapAll([0, 3000, 6000, 9000]), 1)).toBe(20);
+  });
+
+  it("starts over after a pause of a few intervals", () => {
+    expect(tapAll([0, 500, 1000, 4000])).toEqual([4000]);
+    expect(tapAll([0, 3000, 6000, 13000])).toEqual([13000]);
+  });
+
+  it("starts over when the first interval is slower than the slowest tempo", () => {
+    expect(tapAll([0, 5000], 4000)).toEqual([5000]);
+    expect(tapAll([0, TAP_RESET_MS], 500)).toEqual([0, TAP_RESET_MS]);
+  });
+
+  it("leaves a missed or doubled tap out of the average", () => {
+    expect(tempoFromTaps(tapAll([0, 500, 1000, 1250, 1500, 2000]), 4)).toBe(30);
+  });
+});
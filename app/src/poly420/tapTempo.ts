@@ -0,0 +1,41 @@
+// Tap tempo: a rolling window of tap times, with intervals far from the median
+// (a missed or doubled tap) left out of the average. Times are in ms.
+
+// A pause this long always starts a new count...
+export const TAP_RESET_MS = 2000;
+// ...and so does one this many times the last interval
+const RESET_INTERVALS = 2;
+const MAX_TAPS = 8;
+// Intervals further than this fraction from the median are dropped
+const OUTLIER_TOLERANCE = 0.25;
+
+// `slowestMs` is the interval at the slowest tempo allowed: until there's an
+// interval to go by, a second tap that far from the first still counts
+export function addTap(taps: number[], time: number, slowestMs: number) {
+  const last = taps[taps.length - 1];
+  const previous = taps[taps.length - 2];
+  const window = Math.max(
+    TAP_RESET_MS,
+    previous === undefined ? slowestMs : (last - previous) * RESET_INTERVALS
+  );
+  const kept = last !== undefined && time - last <= window ? taps : [];
+  return [...kept, time].slice(-MAX_TAPS);
+}
+
+// Mean interval between taps, or null until there are two taps
+export function tapInterval(taps: number[]) {
+  const intervals = taps.slice(1).map((time, index) => time - taps[index]);
+  if (intervals.length === 0) return null;
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const inliers = intervals.filter(
+    (interval) => Math.abs(interval - median) <= median * OUTLIER_TOLERANCE
+  );
+  return inliers.reduce((sum, interval) => sum + interval, 0) / inliers.length;
+}
+
+// Cycles per minute when each tap is 1 / `tapsPerCycle` of a cycle
+export function tempoFromTaps(taps: number[], tapsPerCycle: number) {
+  const interval = tapInterval(taps);
+  return interval ? 60000 / (interval * tapsPerCycle) : null;
+}
@@ -0,0 +1,273 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SCHEDULE_LAG,
+  SOFT_VELOCITY,
+  advanceTransport,
+  beatFraction,
+  bucketHits,
+  cycleHits,
+  layOutCycle,
+  rampTempo,
+  resolveSpans,
+  type Hit,
+  type TempoRamp,
+  type TransportTrack,
+} from "./transport";
+
+const four: TransportTrack = {
+  id: "four",
+  beatsPerCycle: 4,
+  pattern: ["accent", "on", "on", "on"],
+};
+const three: TransportTrack = {
+  id: "three",
+  beatsPerCycle: 3,
+  pattern: ["accent", "on", "on"],
+};
+
+const hit = (time: number, trackId: string): Hit => ({
+  time,
+  trackId,
+  cycle: 0,
+  beat: 0,
+  accent: false,
+  velocity: 1,
+});
+
+describe("advanceTransport", () => {
+  it("lays out cycles back to back up to the lookahead", () => {
+    const { state, hits, cycles, realigned } = advanceTransport(
+      { cycle: 0, cycleStart: 0 },
+      { now: 0, until: 1.5, cycleDuration: 1, tracks: [four] }
+    );
+    expect(realigned).toBe(false);
+    expect(cycles.map((span) => span.start)).toEqual([0, 1]);
+    expect(hits.map((h) => h.time)).toEqual([
+      0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75,
+    ]);
+    expect(state).toEqual({ cycle: 2, cycleStart: 2 });
+  });
+
+  it("realigns to the cycle in progress after the clock jumps", () => {
+    // A sleeping tab: the next cycle was due at 2 s, it is now 5.6 s
+    const now = 5.6;
+    expect(now - 2).toBeGreaterThan(MAX_SCHEDULE_LAG);
+    const { state, hits, cycles, realigned } = advanceTransport(
+      { cycle: 2, cycleStart: 2 },
+      { now, until: now + 0.1, cycleDuration: 1, tracks: [four] }
+    );
+    expect(realigned).toBe(true);
+    expect(cycles).toEqual([{ cycle: 5, start: 5, duration: 1 }]);
+    // Nothing already past is replayed in a burst
+    expect(hits.map((h) => h.time)).toEqual([5.75]);
+    expect(state).toEqual({ cycle: 6, cycleStart: 6 });
+  });
+
+  it("keeps going when less than MAX_SCHEDULE_LAG behind", () => {
+    const { hits, realigned } = advanceTransport(
+      { cycle: 1, cycleStart: 1 },
+      { now: 1.1, until: 1.2, cycleDuration: 1, tracks: [four] }
+    );
+    expect(realigned).toBe(false);
+    expect(hits.map((h) => h.time)).toEqual([1.25, 1.5, 1.75]);
+  });
+
+  it("applies a tempo change from the next cycle on", () => {
+    // The cycle in progress keeps its length; the next is laid out faster
+    const first = advanceTransport(
+      { cycle: 0, cycleStart: 0 },
+      { now: 0, until: 0.1, cycleDuration: 1, tracks: [three] }
+    );
+    const second = advanceTransport(first.state, {
+      now: 0.5,
+      until: 1.6,
+      cycleDuration: 0.5,
+      tracks: [three],
+    });
+    expect(first.hits.map((h) => h.time)).toEqual([0, 1 / 3, 2 / 3]);
+    expect(second.hits.map((h) => h.cycle)).toEqual([1, 1, 1, 2, 2, 2]);
+    expect(second.hits[1].time).toBeCloseTo(1 + 0.5 / 3);
+    expect(second.hits[3].time).toBe(1.5);
+    expect(second.state).toEqual({ cycle: 3, cycleStart: 2 });
+  });
+
+  it("follows a cycle duration that changes mid-run", () => {
+    const duration = (cycle: number) => (cycle < 2 ? 1 : 0.5);
+    const { cycles, hits } = advanceTransport(
+      { cycle: 0, cycleStart: 0 },
+      { now: 0, until: 3, cycleDuration: duration, tracks: [three] }
+    );
+    expect(cycles).toEqual([
+      { cycle: 0, start: 0, duration: 1 },
+      { cycle: 1, start: 1, duration: 1 },
+      { cycle: 2, start: 2, duration: 0.5 },
+      { cycle: 3, start: 2.5, duration: 0.5 },
+    ]);
+    const third = hits.filter((h) => h.cycle === 2).map((h) => h.time);
+    expect(third[0]).toBe(2);
+    expect(third[1]).toBeCloseTo(2 + 0.5 / 3);
+  });
+
+  it("ends the run when the duration runs out", () => {
+    const duration = (cycle: number) => (cycle < 2 ? 1 : null);
+    const { cycles, ended } = advanceTransport(
+      { cycle: 0, cycleStart: 0 },
+      { now: 0, until: 10, cycleDuration: duration, tracks: [three] }
+    );
+    expect(cycles).toHaveLength(2);
+    expect(ended).toBe(true);
+  });
+});
+
+describe("bucketHits", () => {
+  it("merges hits that land together", () => {
+    const { hits } = advanceTransport(
+      { cycle: 0, cycleStart: 0 },
+      { now: 0, until: 0.5, cycleDuration: 1, tracks: [four, three] }
+    );
+    const buckets = bucketHits(hits);
+    // 4 + 3 beats, sharing the downbeat
+    expect(buckets).toHaveLength(6);
+    expect(buckets[0].time).toBe(0);
+    expect(buckets[0].hits.map((h) => h.trackId)).toEqual(["four", "three"]);
+  });
+
+  it("merges within the resolution and keeps times in order", () => {
+    const buckets = bucketHits([
+      hit(0.5004, "b"),
+      hit(0.25, "a"),
+      hit(0.4996, "a"),
+    ]);
+    expect(buckets.map((bucket) => bucket.time)).toEqual([0.25, 0.5]);
+    expect(buckets[1].hits.map((h) => h.trackId)).toEqual(["b", "a"]);
+  });
+});
+
+describe("layOutCycle", () => {
+  it("swings polymeter pulses by each track's own beat", () => {
+    const swung = { ...three, swing: 0.5 };
+    const two: TransportTrack = {
+      id: "two",
+      beatsPerCycle: 2,
+      pattern: ["on", "on"],
+    };
+    const times = (id: string) =>
+      Array.from({ length: 6 }, (_, pulse) =>
+        layOutCycle(pulse, pulse, 1, [swung, two], 0)
+      )
+        .flat()
+        .filter((h) => h.trackId === id)
+        .map((h) => h.time);
+    // Beats 0 1 2 0 1 2: only beat 1 is late, across the loop boundary too
+    expect(times("three")).toEqual([0, 1.5, 2, 3, 4.5, 5]);
+    expect(times("two")).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+});
+
+describe("rampTempo", () => {
+  const RAMP: TempoRamp = {
+    step: 15,
+    every: 1,
+    target: 120,
+    down: false,
+    stopAtEnd: false,
+  };
+  const tempos = (changes: Partial<TempoRamp>, start: number, cycles: number) =>
+    Array.from({ length: cycles }, (_, elapsed) =>
+      rampTempo({ ...RAMP, ...changes }, start, elapsed)
+    );
+
+  it("steps every few cycles and holds at the target", () => {
+    expect(tempos({ every: 2 }, 100, 8)).toEqual([
+      100, 100, 115, 115, 120, 120, 120, 120,
+    ]);
+  });
+
+  it("walks back down to the start", () => {
+    expect(tempos({ down: true }, 100, 7)).toEqual([
+      100, 115, 120, 105, 100, 100, 100,
+    ]);
+  });
+
+  it("ramps down to a slower target", () => {
+    expect(tempos({ target: 90 }, 120, 4)).toEqual([120, 105, 90, 90]);
+  });
+
+  it("ends once a ramp that stops at the end has run out", () => {
+    expect(tempos({ stopAtEnd: true }, 100, 4)).toEqual([100, 115, 120, null]);
+  });
+});
+
+describe("spans", () => {
+  const times = (track: TransportTrack) =>
+    cycleHits(0, 0, 1, [track]).map((h) => h.time);
+
+  it("squeezes a track's beats into part of the cycle", () => {
+    // 5 in the space of beats 1-3 of 4
+    const five: TransportTrack = {
+      id: "five",
+      beatsPerCycle: 5,
+      pattern: [],
+      span: { from: 1, length: 2, of: 4 },
+    };
+    [0.25, 0.35, 0.45, 0.55, 0.65].forEach((fraction, beat) =>
+      expect(beatFraction(five, beat)).toBeCloseTo(fraction)
+    );
+  });
+
+  it("repeats a child once per parent beat, nesting multiplies", () => {
+    const [, child, grandchild] = resolveSpans([
+      three,
+      { id: "two", beatsPerCycle: 2, pattern: [], parentId: "three" },
+      { id: "one", beatsPerCycle: 1, pattern: [], parentId: "two" },
+    ]);
+    expect(child.span).toEqual({ from: 0, length: 1, of: 1, repeats: 3 });
+    times(child).forEach((time, index) => expect(time).toBeCloseTo(index / 6));
+    expect(grandchild.span?.repeats).toBe(6);
+    expect(times(grandchild)).toHaveLength(6);
+  });
+
+  it("falls back to the track's own span for missing or circular parents", () => {
+    const own = { from: 0, length: 1, of: 2 };
+    const [orphan, a, b] = resolveSpans([
+      { ...four, span: own, parentId: "gone" },
+      { ...three, id: "a", parentId: "b" },
+      { ...three, id: "b", span: own, parentId: "a" },
+    ]);
+    expect(orphan.span).toEqual(own);
+    // The loop is cut where it comes back round: b is a's parent once, not forever
+    expect(a.span).toEqual({ ...own, repeats: 3 });
+    expect(b.span).toEqual({ from: 0, length: 1, of: 1, repeats: 3 });
+  });
+});
+
+describe("step levels", () => {
+  const velocities = (track: TransportTrack) =>
+    cycleHits(0, 0, 1, [track]).map((h) => [h.accent, h.velocity]);
+  const steps: TransportTrack = {
+    id: "steps",
+    beatsPerCycle: 4,
+    pattern: ["accent", "soft", "off", "on"],
+  };
+
+  it("plays soft steps quieter and skips rests", () => {
+    expect(velocities(steps)).toEqual([
+      [true, 1],
+      [false, SOFT_VELOCITY],
+      [false, 1],
+    ]);
+  });
+
+  it("plays accents as plain beats at strength 0", () => {
+    // A flat track
+    expect(velocities({ ...steps, accentStrength: 0 })[0]).toEqual([false, 1]);
+  });
+
+  it("clamps the accent strength", () => {
+    expect(velocities({ ...steps, accentStrength: 3 })[0]).toEqual([true, 1]);
+    const weak = velocities({ ...steps, accentStrength: 0.5 })[0];
+    expect(weak[0]).toBe(true);
+    expect(weak[1]).toBeGreaterThan(SOFT_VELOCITY);
+    expect(weak[1]).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,427 @@
+// Framework-free timing engine shared by the WebAudio and HTML audio engines.
+// All times are in seconds on a single clock (the scheduler uses performance.now()).
+
+// Velocity levels 0-3, quietest first
+export type Step = "off" | "soft" | "on" | "accent";
+export const STEP_LEVELS: Step[] = ["off", "soft", "on", "accent"];
+
+// Beats `from` to `from + length` of a cycle split into `of` equal beats. The
+// track's beats are squeezed into that span, `repeats` times over.
+export type TrackSpan = {
+  from: number;
+  length: number;
+  of: number;
+  repeats?: number;
+};
+
+export type TransportTrack = {
+  id: string;
+  beatsPerCycle: number;
+  pattern: Step[];
+  // The whole cycle when absent
+  span?: TrackSpan | null;
+  // Subdivides each beat of this track instead; see resolveSpans
+  parentId?: string | null;
+  // Fraction of a beat every odd beat is delayed by, up to MAX_SWING
+  swing?: number;
+  // Largest timing jitter in ms, drawn the same way on every run; 0 for none
+  humanize?: number;
+  // How far accents stand out, 0 (played as plain beats) to 1; 1 when absent
+  accentStrength?: number;
+};
+
+export type Hit = {
+  time: number;
+  trackId: string;
+  cycle: number;
+  beat: number;
+  accent: boolean;
+  // Level relative to a full plain (or accented) hit, at most 1
+  velocity: number;
+};
+
+// The next cycle that has not been scheduled yet
+export type TransportState = {
+  cycle: number;
+  cycleStart: number;
+};
+
+// A cycle as it was laid out; durations differ once the tempo changes mid-run
+export type CycleSpan = {
+  cycle: number;
+  start: number;
+  duration: number;
+};
+
+// Either a fixed cycle length or the length of each cycle by index; null ends the run
+export type CycleDuration = number | ((cycle: number) => number | null);
+
+// Either the same tracks every cycle or the tracks playing in each cycle
+export type CycleTracks =
+  | TransportTrack[]
+  | ((cycle: number) => TransportTrack[]);
+
+// Raise (or lower) the tempo by `step` cpm every `every` cycles until `target`,
+// optionally walking back down to the starting tempo afterwards.
+export type TempoRamp = {
+  step: number;
+  every: number;
+  target: number;
+  down: boolean;
+  stopAtEnd: boolean;
+};
+
+// Play `play` cycles, then go silent for `silent`; with `random`, each cycle after
+// the first `play` is silent with probability silent / (play + silent) instead.
+export type GapPattern = {
+  play: number;
+  silent: number;
+  random: boolean;
+};
+
+// Cycles that should have started more than this long ago are skipped, not replayed
+export const MAX_SCHEDULE_LAG = 0.2;
+
+// Half a beat late: the odd beat lands three quarters of the way to the next
+export const MAX_SWING = 0.5;
+export const MAX_HUMANIZE_MS = 50;
+// How much quieter a hit may get at MAX_HUMANIZE_MS
+const HUMANIZE_VELOCITY = 0.3;
+// A soft step next to a plain one
+export const SOFT_VELOCITY = 0.5;
+// An accent at the lowest non-zero strength, next to a full one
+const WEAK_ACCENT_VELOCITY = 0.65;
+
+// Tempo of the `elapsed`-th cycle since the ramp started at `startTempo`, or
+// null once a ramp that stops at the end has run out.
+export function rampTempo(
+  ramp: TempoRamp,
+  startTempo: number,
+  elapsed: number
+): number | null {
+  const span = Math.abs(ramp.target - startTempo);
+  const sign = ramp.target >= startTempo ? 1 : -1;
+  const steps = ramp.step > 0 ? Math.ceil(span / ramp.step) : 0;
+  const stage = Math.floor(Math.max(0, elapsed) / Math.max(1, ramp.every));
+
+  // Up: start, +step, ..., target. Down: target - step, ..., start.
+  if (stage <= steps) {
+    return startTempo + sign * Math.min(span, stage * ramp.step);
+  }
+  const downStage = stage - steps - 1;
+  if (ramp.down && downStage < steps) {
+    return ramp.target - sign * Math.min(span, (downStage + 1) * ramp.step);
+  }
+  if (ramp.stopAtEnd) return null;
+  return ramp.down ? startTempo : ramp.target;
+}
+
+// Deterministic value in [0, 1) for the `index`-th draw of `seed` (mulberry32)
+export function seededUnit(seed: number, index: number) {
+  let t = (seed + Math.imul(index + 1, 0x6d2b79f5)) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Whether the `elapsed`-th cycle since the run started falls in a silent gap
+export function isGapCycle(gap: GapPattern, elapsed: number, seed = 0) {
+  if (gap.silent <= 0 || elapsed < gap.play) return false;
+  const period = gap.play + gap.silent;
+  if (!gap.random) return elapsed % period >= gap.play;
+  return seededUnit(seed, elapsed) < gap.silent / period;
+}
+
+const WHOLE_CYCLE: TrackSpan = { from: 0, length: 1, of: 1, repeats: 1 };
+
+// Replaces each parent reference with the span it works out to: the parent's
+// span, repeated once per parent beat (the parent's swing isn't followed).
+// Missing or circular parents fall back to the track's own span.
+export function resolveSpans<T extends TransportTrack>(tracks: T[]): T[] {
+  const byId = new Map(tracks.map((track) => [track.id, track]));
+  const spanOf = (track: T, seen: Set<string>): TrackSpan | null => {
+    const parent = track.parentId ? byId.get(track.parentId) : undefined;
+    if (!parent || seen.has(parent.id)) return track.span ?? null;
+    const outer = spanOf(parent, new Set(seen).add(parent.id)) ?? WHOLE_CYCLE;
+    return {
+      ...outer,
+      repeats: (outer.repeats ?? 1) * parent.beatsPerCycle,
+    };
+  };
+  return tracks.map((track) => ({
+    ...track,
+    span: spanOf(track, new Set([track.id])),
+  }));
+}
+
+// Where `beat` of the `repeat`-th pass falls in the cycle, from 0 to 1, with
+// swing applied
+export function beatFraction(track: TransportTrack, beat: number, repeat = 0) {
+  const span = track.span ?? WHOLE_CYCLE;
+  const swing = beat % 2 === 1 ? track.swing ?? 0 : 0;
+  const within =
+    (repeat + (beat + swing) / track.beatsPerCycle) / (span.repeats ?? 1);
+  return (span.from + span.length * within) / span.of;
+}
+
+export const spanRepeats = (track: TransportTrack) => track.span?.repeats ?? 1;
+
+// Stable per track id, so humanized hits repeat from run to run and in exports
+function trackSeed(id: string) {
+  let seed = 0;
+  for (let i = 0; i < id.length; i += 1) {
+    seed = (Math.imul(seed, 31) + id.charCodeAt(i)) | 0;
+  }
+  return seed;
+}
+
+export function startTransport(
+  anchor: number,
+  now: number,
+  cycleDuration: number
+): TransportState {
+  const cycle = Math.max(0, Math.floor((now - anchor) / cycleDuration));
+  return { cycle, cycleStart: anchor + cycle * cycleDuration };
+}
+
+export function cycleHits(
+  cycle: number,
+  cycleStart: number,
+  cycleDuration: number,
+  tracks: TransportTrack[]
+): Hit[] {
+  const hits: Hit[] = [];
+  tracks.forEach((track) => {
+    const repeats = spanRepeats(track);
+    for (let index = 0; index < repeats * track.beatsPerCycle; index += 1) {
+      const repeat = Math.floor(index / track.beatsPerCycle);
+      const beat = index % track.beatsPerCycle;
+      const level = stepLevel(track, track.pattern[beat] ?? "on");
+      if (!level) continue;
+      const { jitter, velocity } = humanizeHit(
+        track,
+        cycle * repeats * track.beatsPerCycle + index
+      );
+      hits.push({
+        time:
+          cycleStart +
+          cycleDuration * beatFraction(track, beat, repeat) +
+          jitter,
+        trackId: track.id,
+        cycle,
+        beat,
+        accent: level.accent,
+        velocity: velocity * level.velocity,
+      });
+    }
+  });
+  return hits;
+}
+
+// Polymeter: the cycle is one pulse shared by every track, and each track plays
+// one beat per pulse, looping over its own beats. `pulse` counts from the start
+// of the run, so a track is in its floor(pulse / beatsPerCycle)-th loop. Swing
+// delays odd beats by part of a pulse; spans don't apply.
+export function pulseHits(
+  cycle: number,
+  pulse: number,
+  pulseStart: number,
+  pulseDuration: number,
+  tracks: TransportTrack[]
+): Hit[] {
+  return tracks.flatMap((track) => {
+    const beat =
+      ((pulse % track.beatsPerCycle) + track.beatsPerCycle) %
+      track.beatsPerCycle;
+    const level = stepLevel(track, track.pattern[beat] ?? "on");
+    if (!level) return [];
+    const swing = beat % 2 === 1 ? track.swing ?? 0 : 0;
+    const { jitter, velocity } = humanizeHit(track, pulse);
+    return [
+      {
+        time: pulseStart + pulseDuration * swing + jitter,
+        trackId: track.id,
+        cycle,
+        beat,
+        accent: level.accent,
+        velocity: velocity * level.velocity,
+      },
+    ];
+  });
+}
+
+// Whether a step sounds accented and how loud, or null for a rest
+function stepLevel(track: TransportTrack, step: Step) {
+  if (step === "off") return null;
+  if (step === "soft") return { accent: false, velocity: SOFT_VELOCITY };
+  const strength = Math.min(1, Math.max(0, track.accentStrength ?? 1));
+  if (step === "on" || strength === 0) return { accent: false, velocity: 1 };
+  return {
+    accent: true,
+    velocity: WEAK_ACCENT_VELOCITY + (1 - WEAK_ACCENT_VELOCITY) * strength,
+  };
+}
+
+// Seconds of timing jitter and the velocity for the `draw`-th hit of `track`
+function humanizeHit(track: TransportTrack, draw: number) {
+  const humanize = Math.min(MAX_HUMANIZE_MS, track.humanize ?? 0);
+  if (!humanize) return { jitter: 0, velocity: 1 };
+  const seed = trackSeed(track.id);
+  const jitter = ((seededUnit(seed, draw * 2) * 2 - 1) * humanize) / 1000;
+  const softening =
+    (HUMANIZE_VELOCITY * humanize * seededUnit(seed, draw * 2 + 1)) /
+    MAX_HUMANIZE_MS;
+  return { jitter, velocity: 1 - softening };
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Pulses until every track is back on its first beat
+export const realignmentPulses = (tracks: TransportTrack[]) =>
+  tracks.reduce(
+    (acc, track) => (acc / gcd(acc, track.beatsPerCycle)) * track.beatsPerCycle,
+    1
+  );
+
+// A cycle's hits, or with `pulseOrigin` the hits of pulse `cycle - pulseOrigin`
+// of a polymeter
+export function layOutCycle(
+  cycle: number,
+  cycleStart: number,
+  duration: number,
+  tracks: TransportTrack[],
+  pulseOrigin?: number
+) {
+  return pulseOrigin === undefined
+    ? cycleHits(cycle, cycleStart, duration, tracks)
+    : pulseHits(cycle, cycle - pulseOrigin, cycleStart, duration, tracks);
+}
+
+// Schedules every cycle that starts before `until`. Each cycle is laid out with
+// the duration current at the time it is scheduled, so a tempo change lands on
+// the next cycle boundary. If the clock jumped (tab sleep), skip ahead to the
+// cycle in progress, keeping phase. Hits that are already past, or that
+// `isSilenced` rejects, are dropped; the cycle itself still counts.
+export function advanceTransport(
+  state: TransportState,
+  {
+    now,
+    until,
+    cycleDuration,
+    tracks,
+    isSilenced,
+    pulseOrigin,
+  }: {
+    now: number;
+    until: number;
+    cycleDuration: CycleDuration;
+    tracks: CycleTracks;
+    isSilenced?: (hit: Hit) => boolean;
+    // Lays each cycle out as a polymeter pulse, counting pulses from this cycle
+    pulseOrigin?: number;
+  }
+): {
+  state: TransportState;
+  hits: Hit[];
+  cycles: CycleSpan[];
+  realigned: boolean;
+  ended: boolean;
+} {
+  const durationOf =
+    typeof cycleDuration === "number" ? () => cycleDuration : cycleDuration;
+  const tracksOf = typeof tracks === "function" ? tracks : () => tracks;
+  let { cycle, cycleStart } = state;
+  let duration = durationOf(cycle);
+  let realigned = false;
+
+  if (duration !== null && cycleStart < now - MAX_SCHEDULE_LAG) {
+    while (duration !== null && cycleStart + duration <= now) {
+      cycleStart += duration;
+      cycle += 1;
+      duration = durationOf(cycle);
+    }
+    realigned = true;
+  }
+
+  const hits: Hit[] = [];
+  const cycles: CycleSpan[] = [];
+  while (duration !== null && cycleStart < until) {
+    const laidOut = layOutCycle(
+      cycle,
+      cycleStart,
+      duration,
+      tracksOf(cycle),
+      pulseOrigin
+    );
+    laidOut.forEach((hit) => {
+      if (hit.time >= now && !isSilenced?.(hit)) hits.push(hit);
+    });
+    cycles.push({ cycle, start: cycleStart, duration });
+    cycle += 1;
+    cycleStart += duration;
+    duration = durationOf(cycle);
+  }
+
+  return {
+    state: { cycle, cycleStart },
+    hits,
+    cycles,
+    realigned,
+    ended: duration === null,
+  };
+}
+
+export function cycleAt(timeline: CycleSpan[], time: number) {
+  return timeline.find(
+    (span) => span.start <= time && time < span.start + span.duration
+  );
+}
+
+// Appends freshly laid-out cycles, replacing any that were laid out again, and
+// forgets cycles that ended more than `keep` seconds before `now`.
+export function mergeTimeline(
+  timeline: CycleSpan[],
+  cycles: CycleSpan[],
+  now: number,
+  keep = 2
+) {
+  if (cycles.length === 0) return timeline;
+  const first = cycles[0].cycle;
+  return [
+    ...timeline.filter(
+      (span) => span.cycle < first && span.start + span.duration >= now - keep
+    ),
+    ...cycles,
+  ];
+}
+
+// Picks the transport back up at the cycle in progress (after pending hits were
+// cancelled), keeping the phase of whatever tempo changes already happened.
+export function resumeTransport(
+  timeline: CycleSpan[],
+  anchor: number,
+  now: number,
+  cycleDuration: number
+): TransportState {
+  const last = timeline[timeline.length - 1];
+  if (!last) return startTransport(anchor, now, cycleDuration);
+  const span =
+    cycleAt(timeline, now) ?? (now < timeline[0].start ? timeline[0] : null);
+  if (span) return { cycle: span.cycle, cycleStart: span.start };
+  return { cycle: last.cycle + 1, cycleStart: last.start + last.duration };
+}
+
+// Coincident hits (within `resolution` seconds) share one bucket so the HTML
+// engine can fire them from a single timer.
+export function bucketHits(hits: Hit[], resolution = 0.001) {
+  const buckets = new Map<number, Hit[]>();
+  hits.forEach((hit) => {
+    const key = Math.round(hit.time / resolution);
+    const bucket = buckets.get(key) ?? [];
+    bucket.push(hit);
+    buckets.set(key, bucket);
+  });
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, bucketed]) => ({ time: key * resolution, hits: bucketed }));
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TRACKS,
+  encodeState,
+  parseState,
+  type Section,
+  type SharedState,
+  type Track,
+} from "./urlState";
+
+const track = (index: number, fields: Partial<Track>): Track => ({
+  ...DEFAULT_TRACKS[0],
+  id: `track-${index + 1}`,
+  ...fields,
+});
+
+// Every track field off its default somewhere
+const TRACKS: Track[] = [
+  track(0, {
+    beatsPerCycle: 4,
+    pattern: ["accent", "soft", "off", "on"],
+    pitch: 261.63,
+    voice: "woodblock",
+    volume: 0.4,
+    muted: true,
+    deafened: true,
+    gapped: true,
+    swing: 0.33,
+    humanize: 12,
+    flat: true,
+    pan: -0.6,
+  }),
+  track(1, {
+    beatsPerCycle: 3,
+    pattern: ["on", "on", "accent"],
+    pitch: 880,
+    span: { from: 1, length: 2, of: 4 },
+    pan: 1,
+  }),
+  track(2, {
+    beatsPerCycle: 2,
+    pattern: ["accent", "soft"],
+    pitch: 330,
+    parentId: "track-1",
+  }),
+];
+
+const STATE: SharedState = {
+  tempo: 72,
+  tracks: TRACKS,
+  darkMode: false,
+  ramp: { step: 3, every: 2, target: 120, down: true, stopAtEnd: true },
+  gap: { play: 3, silent: 1, random: true },
+  arrangement: null,
+  polymeter: true,
+  accentStrength: 0.45,
+  masterVolume: 0.8,
+};
+
+const roundTrip = (state: SharedState) =>
+  parseState(
+    encodeState(
+      state.tempo,
+      state.tracks,
+      state.darkMode,
+      state.ramp,
+      state.gap,
+      state.arrangement,
+      state.polymeter,
+      state.accentStrength,
+      state.masterVolume
+    )
+  );
+
+describe("link round trip", () => {
+  it("keeps every track and state field", () => {
+    const { state, error } = roundTrip(STATE);
+    expect(error).toBeNull();
+    expect(state).toEqual(STATE);
+  });
+
+  it("keeps every section of an arrangement", () => {
+    const sections: Section[] = [
+      { tempo: 72, tracks: TRACKS, repeats: 4 },
+      { tempo: 96, tracks: TRACKS.slice(0, 2), repeats: 2 },
+    ];
+    const { state, error } = roundTrip({ ...STATE, arrangement: sections });
+    expect(error).toBeNull();
+    expect(state.arrangement).toEqual(sections);
+    // The first section stands in for the tempo and tracks
+    expect(state.tempo).toBe(72);
+    expect(state.tracks).toEqual(TRACKS);
+  });
+
+  it("writes nothing for the defaults", () => {
+    const hash = encodeState(
+      30,
+      DEFAULT_TRACKS,
+      true,
+      null,
+      null,
+      null,
+      false,
+      1,
+      1
+    );
+    expect(hash).toBe("");
+    expect(parseState(hash)).toEqual({
+      state: expect.objectContaining({ tracks: DEFAULT_TRACKS }),
+      error: null,
+    });
+  });
+
+  it("clamps values out of range", () => {
+    const { state } = roundTrip({
+      ...STATE,
+      tempo: 900,
+      tracks: [
+        track(0, { pitch: 20000, volume: 3, swing: 3, humanize: 400, pan: -5 }),
+      ],
+    });
+    expect(state.tempo).toBe(240);
+    expect(state.tracks[0]).toMatchObject({
+      pitch: 8000,
+      volume: 1,
+      swing: 0.5,
+      humanize: 50,
+      pan: -1,
+    });
+  });
+
+  it("clamps the accent strength", () => {
+    const { state } = roundTrip({ ...STATE, accentStrength: 7 });
+    expect(state.accentStrength).toBe(1);
+  });
+
+  it("reports unreadable tracks and keeps the rest", () => {
+    const payload = btoa(JSON.stringify({ tracks: [{ b: 5 }, { b: "x" }] }))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+    const { state, error } = parseState(`#v=2;s=${payload}`);
+    expect(state.tracks.map((t) => t.beatsPerCycle)).toEqual([5]);
+    expect(error).toBe("invalid track 2");
+  });
+
+  it("rejects corrupted data and unknown versions", () => {
+    expect(parseState("#v=2;s=%%%").error).toBe("link data is corrupted");
+    expect(parseState("#v=9;s=e30").error).toBe('unsupported link version "9"');
+  });
+});
+
+describe("legacy links", () => {
+  it("decodes bare track lists", () => {
+    const { state, error } = parseState("#tracks=3|2");
+    expect(error).toBeNull();
+    expect(state.tracks.map((t) => t.beatsPerCycle)).toEqual([3, 2]);
+    expect(state.tracks.map((t) => t.pattern)).toEqual([
+      ["accent", "on", "on"],
+      ["accent", "on"],
+    ]);
+    expect(state.tempo).toBe(30);
+  });
+
+  it("decodes every track flag and the other settings", () => {
+    const { state, error } = parseState(
+      "#t=90;theme=light;ramp=2,4,60,d;gap=2,2,r;tracks=4v50mdgf440iwpx-oo|3"
+    );
+    expect(error).toBeNull();
+    expect(state).toMatchObject({
+      tempo: 90,
+      darkMode: false,
+      ramp: { step: 2, every: 4, target: 60, down: true, stopAtEnd: false },
+      gap: { play: 2, silent: 2, random: true },
+      polymeter: false,
+    });
+    expect(state.tracks[0]).toMatchObject({
+      id: "track-1",
+      beatsPerCycle: 4,
+      volume: 0.5,
+      muted: true,
+      deafened: true,
+      gapped: true,
+      pitch: 440,
+      voice: "woodblock",
+      pattern: ["accent", "off", "on", "on"],
+    });
+    expect(state.tracks[1]).toMatchObject({ id: "track-2", beatsPerCycle: 3 });
+  });
+
+  it("reports what it couldn't read", () => {
+    const { state, error } = parseState("#tracks=3|zz;bogus");
+    expect(state.tracks.map((t) => t.beatsPerCycle)).toEqual([3]);
+    expect(error).toBe('unknown setting "bogus"; invalid track "zz"');
+  });
+});
@@ -0,0 +1,701 @@
+// Everything a link or preset carries: the tracks and the settings around
+// them, and how they're written to and read back from the URL hash.
+
+import {
+  MAX_HUMANIZE_MS,
+  MAX_SWING,
+  type GapPattern,
+  type Step,
+  type TempoRamp,
+  type TrackSpan,
+} from "./transport";
+import { DEFAULT_VOICE, VOICE_FROM_CODE, VOICES, type Voice } from "./voices";
+
+export type Track = {
+  id: string;
+  beatsPerCycle: number;
+  pattern: Step[];
+  // Hz; stays with the track when others are added, removed or moved
+  pitch: number;
+  voice: Voice;
+  volume: number;
+  muted: boolean;
+  deafened: boolean;
+  // Falls silent during gap cycles; when no track is picked, the whole mix does
+  gapped: boolean;
+  // Fraction of a beat the odd beats are delayed by
+  swing: number;
+  // Largest timing jitter in ms; 0 for none
+  humanize: number;
+  // Accented steps play as plain beats
+  flat: boolean;
+  // -1 (left) to 1 (right)
+  pan: number;
+  // Part of the cycle the beats fill, or null for all of it
+  span: TrackSpan | null;
+  // Fills each beat of that track instead of a span
+  parentId: string | null;
+};
+
+// One part of an arrangement: its own tempo and tracks, played `repeats` cycles
+export type Section = {
+  tempo: number;
+  tracks: Track[];
+  repeats: number;
+};
+
+export const MAX_SECTION_REPEATS = 99;
+
+// Default pitches for new tracks, by position
+const PITCHES = [392, 494, 587, 440, 659, 784, 523, 698];
+export const MIN_PITCH = 20;
+export const MAX_PITCH = 8000;
+
+export const defaultPitch = (index: number) => PITCHES[index % PITCHES.length];
+
+const STEP_CODES: Record<Step, string> = {
+  on: "o",
+  accent: "x",
+  off: "-",
+  soft: ".",
+};
+const STEP_FROM_CODE: Record<string, Step> = {
+  o: "on",
+  x: "accent",
+  "-": "off",
+  ".": "soft",
+};
+
+export const defaultPattern = (beats: number): Step[] =>
+  Array.from({ length: beats }, (_, beat) => (beat === 0 ? "accent" : "on"));
+
+// Keep the steps the user already set; new steps fall back to the default
+export function resizePattern(pattern: Step[], beats: number): Step[] {
+  const fallback = defaultPattern(beats);
+  return fallback.map((step, beat) => pattern[beat] ?? step);
+}
+
+const patternIsDefault = (pattern: Step[]) =>
+  defaultPattern(pattern.length).every((step, beat) => pattern[beat] === step);
+
+export const DEFAULT_TEMPO = 30;
+export const MIN_TEMPO = 1;
+const MAX_TEMPO = 240;
+export const DEFAULT_ACCENT_STRENGTH = 1;
+export const DEFAULT_MASTER_VOLUME = 1;
+export const DEFAULT_VOLUME = 0.75;
+export const DEFAULT_TRACKS: Track[] = [
+  {
+    id: "track-1",
+    beatsPerCycle: 4,
+    pattern: defaultPattern(4),
+    voice: DEFAULT_VOICE,
+    volume: DEFAULT_VOLUME,
+    muted: false,
+    deafened: false,
+    gapped: false,
+    swing: 0,
+    humanize: 0,
+    flat: false,
+    pan: 0,
+    span: null,
+    parentId: null,
+    pitch: defaultPitch(0),
+  },
+  {
+    id: "track-2",
+    beatsPerCycle: 3,
+    pattern: defaultPattern(3),
+    voice: DEFAULT_VOICE,
+    volume: DEFAULT_VOLUME,
+    muted: false,
+    deafened: false,
+    gapped: false,
+    swing: 0,
+    humanize: 0,
+    flat: false,
+    pan: 0,
+    span: null,
+    parentId: null,
+    pitch: defaultPitch(1),
+  },
+];
+
+export const clampTempo = (tempo: number) =>
+  Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, Math.round(tempo)));
+export const clampSwing = (swing: number) =>
+  Math.min(MAX_SWING, Math.max(0, Math.round(swing * 100) / 100));
+export const clampHumanize = (ms: number) =>
+  Math.min(MAX_HUMANIZE_MS, Math.max(0, Math.round(ms)));
+export const clampAccentStrength = (strength: number) =>
+  Math.min(1, Math.max(0, Math.round(strength * 100) / 100));
+export const clampPan = (pan: number) =>
+  Math.min(1, Math.max(-1, Math.round(pan * 100) / 100));
+export const clampMasterVolume = (volume: number) =>
+  Math.min(1, Math.max(0, Math.round(volume * 100) / 100));
+
+// Whole beats of a cycle of at most 64, at least one beat long
+export function clampSpan(span: TrackSpan): TrackSpan {
+  const of = Math.min(64, Math.max(1, Math.round(span.of) || 1));
+  const from = Math.min(of - 1, Math.max(0, Math.round(span.from) || 0));
+  const length = Math.min(of - from, Math.max(1, Math.round(span.length) || 1));
+  return { from, length, of };
+}
+
+// Two decimals is plenty for Hz and keeps the hash short
+export const clampPitch = (freq: number) =>
+  Math.round(Math.min(MAX_PITCH, Math.max(MIN_PITCH, freq || 440)) * 100) / 100;
+
+function tracksMatchDefault(tracks: Track[]) {
+  if (tracks.length !== DEFAULT_TRACKS.length) return false;
+  return tracks.every((track, index) => {
+    const baseline = DEFAULT_TRACKS[index];
+    return (
+      track.beatsPerCycle === baseline.beatsPerCycle &&
+      patternIsDefault(track.pattern) &&
+      track.volume === baseline.volume &&
+      track.muted === baseline.muted &&
+      track.deafened === baseline.deafened &&
+      track.gapped === baseline.gapped &&
+      track.pitch === baseline.pitch &&
+      track.voice === baseline.voice &&
+      track.swing === baseline.swing &&
+      track.humanize === baseline.humanize &&
+      track.flat === baseline.flat &&
+      track.pan === baseline.pan &&
+      track.span === null &&
+      track.parentId === null
+    );
+  });
+}
+
+export type SharedState = {
+  tempo: number;
+  tracks: Track[];
+  darkMode: boolean;
+  ramp: TempoRamp | null;
+  gap: GapPattern | null;
+  arrangement: Section[] | null;
+  // Tempo is a shared pulse and each track loops over its own beats
+  polymeter: boolean;
+  // 0 (accents play as plain beats) to 1
+  accentStrength: number;
+  masterVolume: number;
+};
+
+// What a link decoded to; `error` lists anything that couldn't be read and was
+// left at its default
+export type ParsedState = {
+  state: SharedState;
+  error: string | null;
+};
+
+const DEFAULT_STATE: SharedState = {
+  tempo: DEFAULT_TEMPO,
+  tracks: DEFAULT_TRACKS,
+  darkMode: true,
+  ramp: null,
+  gap: null,
+  arrangement: null,
+  polymeter: false,
+  accentStrength: DEFAULT_ACCENT_STRENGTH,
+  masterVolume: DEFAULT_MASTER_VOLUME,
+};
+
+// Links are `#v=2;s=<base64url JSON>`. Older links are bare `;`-separated
+// pieces (`t=`, `tracks=`, ...) and still decode through parseLegacyState.
+const HASH_VERSION = 2;
+
+// One track in a v2 link; fields left out take their defaults. Readers ignore
+// fields they don't know, so new ones can be added without a version bump.
+type EncodedTrack = {
+  b: number;
+  v?: number;
+  m?: 1;
+  d?: 1;
+  g?: 1;
+  f?: number;
+  i?: Voice;
+  p?: string;
+  // Swing in percent of a beat, humanize in ms
+  w?: number;
+  h?: number;
+  // Span as [from, length, of], or the index of the track it subdivides
+  s?: number[];
+  u?: number;
+  // No accents
+  n?: 1;
+  // Pan in percent, -100 (left) to 100 (right)
+  x?: number;
+};
+
+type EncodedSection = {
+  t: number;
+  r: number;
+  tracks: EncodedTrack[];
+};
+
+type EncodedState = {
+  t?: number;
+  light?: 1;
+  ramp?: string;
+  gap?: string;
+  tracks?: EncodedTrack[];
+  // With an arrangement, its first section stands in for `t` and `tracks`
+  arr?: EncodedSection[];
+  pm?: 1;
+  // Accent strength and master volume in percent
+  acc?: number;
+  mv?: number;
+};
+
+function toBase64Url(text: string) {
+  let bin = "";
+  new TextEncoder().encode(text).forEach((byte) => {
+    bin += String.fromCharCode(byte);
+  });
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const bin = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(bin, (char) => char.charCodeAt(0))
+  );
+}
+
+const encodeRamp = (ramp: TempoRamp) =>
+  `${ramp.step},${ramp.every},${ramp.target}${ramp.down ? ",d" : ""}${
+    ramp.stopAtEnd ? ",s" : ""
+  }`;
+
+const encodeGap = (gap: GapPattern) =>
+  `${gap.play},${gap.silent}${gap.random ? ",r" : ""}`;
+
+function encodeTrack(
+  track: Track,
+  index: number,
+  tracks: Track[]
+): EncodedTrack {
+  const encoded: EncodedTrack = { b: track.beatsPerCycle };
+  const volumePercent = Math.round(track.volume * 100);
+  if (volumePercent !== Math.round(DEFAULT_VOLUME * 100)) {
+    encoded.v = volumePercent;
+  }
+  if (track.muted) encoded.m = 1;
+  if (track.deafened) encoded.d = 1;
+  if (track.gapped) encoded.g = 1;
+  if (track.pitch !== defaultPitch(index)) encoded.f = track.pitch;
+  if (track.voice !== DEFAULT_VOICE) encoded.i = track.voice;
+  if (!patternIsDefault(track.pattern)) {
+    encoded.p = track.pattern.map((step) => STEP_CODES[step]).join("");
+  }
+  if (track.swing > 0) encoded.w = Math.round(track.swing * 100);
+  if (track.humanize > 0) encoded.h = track.humanize;
+  if (track.flat) encoded.n = 1;
+  if (track.pan !== 0) encoded.x = Math.round(track.pan * 100);
+  if (track.span) {
+    encoded.s = [track.span.from, track.span.length, track.span.of];
+  }
+  const parentIndex = tracks.findIndex(({ id }) => id === track.parentId);
+  if (parentIndex >= 0) encoded.u = parentIndex;
+  return encoded;
+}
+
+export function encodeState(
+  tempo: number,
+  tracks: Track[],
+  darkMode: boolean,
+  ramp: TempoRamp | null,
+  gap: GapPattern | null,
+  arrangement: Section[] | null,
+  polymeter: boolean,
+  accentStrength: number,
+  masterVolume: number
+) {
+  const encoded: EncodedState = {};
+  if (!darkMode) encoded.light = 1;
+  if (polymeter) encoded.pm = 1;
+  if (accentStrength !== DEFAULT_ACCENT_STRENGTH) {
+    encoded.acc = Math.round(accentStrength * 100);
+  }
+  if (masterVolume !== DEFAULT_MASTER_VOLUME) {
+    encoded.mv = Math.round(masterVolume * 100);
+  }
+  if (ramp) encoded.ramp = encodeRamp(ramp);
+  if (gap) encoded.gap = encodeGap(gap);
+  if (arrangement) {
+    encoded.arr = arrangement.map((section) => ({
+      t: section.tempo,
+      r: section.repeats,
+      tracks: section.tracks.map(encodeTrack),
+    }));
+  } else {
+    if (tempo !== DEFAULT_TEMPO) encoded.t = tempo;
+    if (!tracksMatchDefault(tracks)) encoded.tracks = tracks.map(encodeTrack);
+  }
+
+  if (Object.keys(encoded).length === 0) {
+    return "";
+  }
+
+  return `#v=${HASH_VERSION};s=${toBase64Url(JSON.stringify(encoded))}`;
+}
+
+function parseRamp(value: string): TempoRamp | null {
+  const [step, every, target, ...flags] = value.split(",");
+  const numbers = [step, every, target].map(Number);
+  if (numbers.some((n) => !Number.isFinite(n) || n < 1)) return null;
+  return {
+    step: Math.round(numbers[0]),
+    every: Math.round(numbers[1]),
+    target: clampTempo(numbers[2]),
+    down: flags.includes("d"),
+    stopAtEnd: flags.includes("s"),
+  };
+}
+
+function parseGap(value: string): GapPattern | null {
+  const [play, silent, ...flags] = value.split(",");
+  const numbers = [play, silent].map(Number);
+  if (numbers.some((n) => !Number.isFinite(n) || n < 1)) return null;
+  return {
+    play: Math.round(numbers[0]),
+    silent: Math.round(numbers[1]),
+    random: flags.includes("r"),
+  };
+}
+
+// Fills in everything a decoded track may leave out
+function makeTrack(
+  index: number,
+  fields: {
+    beatsPerCycle: number;
+    volumePercent?: number;
+    muted?: boolean;
+    deafened?: boolean;
+    gapped?: boolean;
+    pitch?: number;
+    voice?: Voice;
+    pattern?: Step[];
+    swingPercent?: number;
+    humanize?: number;
+    flat?: boolean;
+    panPercent?: number;
+    span?: TrackSpan | null;
+    parentIndex?: number;
+  }
+): Track {
+  const safeBeats = Math.max(1, Math.round(fields.beatsPerCycle));
+  const volumePercent =
+    fields.volumePercent ?? Math.round(DEFAULT_VOLUME * 100);
+  return {
+    id: `track-${index + 1}`,
+    beatsPerCycle: safeBeats,
+    pattern: resizePattern(fields.pattern ?? [], safeBeats),
+    pitch:
+      fields.pitch === undefined
+        ? defaultPitch(index)
+        : clampPitch(fields.pitch),
+    voice: fields.voice ?? DEFAULT_VOICE,
+    volume: Math.min(1, Math.max(0, volumePercent / 100)),
+    muted: Boolean(fields.muted),
+    deafened: Boolean(fields.deafened),
+    gapped: Boolean(fields.gapped),
+    swing: clampSwing((fields.swingPercent ?? 0) / 100),
+    humanize: clampHumanize(fields.humanize ?? 0),
+    flat: Boolean(fields.flat),
+    pan: clampPan((fields.panPercent ?? 0) / 100),
+    span: fields.span ? clampSpan(fields.span) : null,
+    parentId:
+      fields.parentIndex === undefined || fields.parentIndex === index
+        ? null
+        : `track-${fields.parentIndex + 1}`,
+  };
+}
+
+const parsePatternCodes = (codes: string) =>
+  codes.split("").map((code) => STEP_FROM_CODE[code]);
+
+function finishParse(
+  state: Omit<SharedState, "tracks">,
+  tracks: Track[] | null,
+  errors: string[]
+): ParsedState {
+  if (tracks !== null && tracks.length === 0) {
+    errors.push("no readable tracks");
+  }
+  const parsedTracks = tracks && tracks.length > 0 ? tracks : DEFAULT_TRACKS;
+  return {
+    state: { ...state, tracks: parsedTracks },
+    error: errors.length > 0 ? errors.join("; ") : null,
+  };
+}
+
+function decodeTrack(value: unknown, index: number): Track | null {
+  if (!value || typeof value !== "object") return null;
+  const { b, v, m, d, g, f, i, p, w, h, s, u, n, x } = value as Record<
+    string,
+    unknown
+  >;
+  const isNumber = (n: unknown): n is number =>
+    typeof n === "number" && Number.isFinite(n);
+  if (!isNumber(b) || b < 1) return null;
+  if (v !== undefined && !isNumber(v)) return null;
+  if (f !== undefined && (!isNumber(f) || f <= 0)) return null;
+  if (i !== undefined && !VOICES.some((voice) => voice.id === i)) return null;
+  if (p !== undefined && (typeof p !== "string" || !/^[xo.-]*$/.test(p))) {
+    return null;
+  }
+  if (w !== undefined && !isNumber(w)) return null;
+  if (h !== undefined && !isNumber(h)) return null;
+  if (s !== undefined && !(Array.isArray(s) && s.length === 3)) return null;
+  if (s !== undefined && !s.every(isNumber)) return null;
+  if (u !== undefined && (!isNumber(u) || u < 0)) return null;
+  if (x !== undefined && !isNumber(x)) return null;
+  return makeTrack(index, {
+    beatsPerCycle: b,
+    volumePercent: v,
+    muted: Boolean(m),
+    deafened: Boolean(d),
+    gapped: Boolean(g),
+    pitch: f,
+    voice: i as Voice | undefined,
+    pattern: p === undefined ? undefined : parsePatternCodes(p),
+    swingPercent: w,
+    humanize: h,
+    flat: Boolean(n),
+    panPercent: x,
+    span: s ? { from: s[0], length: s[1], of: s[2] } : null,
+    parentIndex: u === undefined ? undefined : Math.round(u),
+  });
+}
+
+// Null when `value` isn't a list; unreadable tracks are reported and skipped
+function decodeTracks(value: unknown, errors: string[], label: string) {
+  if (!Array.isArray(value)) {
+    errors.push(`invalid ${label}`);
+    return null;
+  }
+  const tracks: Track[] = [];
+  value.forEach((entry, index) => {
+    const track = decodeTrack(entry, tracks.length);
+    if (track) tracks.push(track);
+    else errors.push(`invalid ${label} ${index + 1}`);
+  });
+  return tracks;
+}
+
+function decodeSections(value: unknown, errors: string[]) {
+  if (!Array.isArray(value)) {
+    errors.push("invalid arrangement");
+    return null;
+  }
+  const sections: Section[] = [];
+  value.forEach((entry, index) => {
+    const { t, r, tracks } = (entry ?? {}) as Partial<EncodedSection>;
+    const label = `section ${index + 1}`;
+    const sectionTracks = decodeTracks(tracks, errors, `${label} track`);
+    if (typeof t !== "number" || t < 1 || typeof r !== "number" || r < 1) {
+      errors.push(`invalid ${label}`);
+      return;
+    }
+    if (!sectionTracks || sectionTracks.length === 0) {
+      errors.push(`${label} has no readable tracks`);
+      return;
+    }
+    sections.push({
+      tempo: clampTempo(t),
+      tracks: sectionTracks,
+      repeats: Math.min(MAX_SECTION_REPEATS, Math.round(r)),
+    });
+  });
+  return sections.length > 0 ? sections : null;
+}
+
+function decodeStateV2(payload: string): ParsedState {
+  let data: EncodedState;
+  try {
+    data = JSON.parse(fromBase64Url(payload));
+  } catch {
+    return { state: DEFAULT_STATE, error: "link data is corrupted" };
+  }
+  if (!data || typeof data !== "object") {
+    return { state: DEFAULT_STATE, error: "link data is corrupted" };
+  }
+
+  const errors: string[] = [];
+  let tempo = DEFAULT_TEMPO;
+  if (data.t !== undefined) {
+    if (typeof data.t === "number" && data.t >= 1) tempo = clampTempo(data.t);
+    else errors.push(`invalid tempo "${data.t}"`);
+  }
+
+  const ramp = typeof data.ramp === "string" ? parseRamp(data.ramp) : null;
+  if (data.ramp !== undefined && !ramp) errors.push("invalid ramp");
+  const gap = typeof data.gap === "string" ? parseGap(data.gap) : null;
+  if (data.gap !== undefined && !gap) errors.push("invalid gap");
+  let accentStrength = DEFAULT_ACCENT_STRENGTH;
+  if (data.acc !== undefined) {
+    if (typeof data.acc === "number" && data.acc >= 0) {
+      accentStrength = clampAccentStrength(data.acc / 100);
+    } else errors.push("invalid accent strength");
+  }
+  let masterVolume = DEFAULT_MASTER_VOLUME;
+  if (data.mv !== undefined) {
+    if (typeof data.mv === "number" && data.mv >= 0) {
+      masterVolume = clampMasterVolume(data.mv / 100);
+    } else errors.push("invalid master volume");
+  }
+
+  let tracks =
+    data.tracks === undefined
+      ? null
+      : decodeTracks(data.tracks, errors, "track");
+  const arrangement =
+    data.arr === undefined ? null : decodeSections(data.arr, errors);
+  if (arrangement) {
+    tempo = arrangement[0].tempo;
+    tracks = arrangement[0].tracks;
+  }
+
+  return finishParse(
+    {
+      tempo,
+      darkMode: data.light !== 1,
+      ramp,
+      gap,
+      arrangement,
+      polymeter: data.pm === 1,
+      accentStrength,
+      masterVolume,
+    },
+    tracks,
+    errors
+  );
+}
+
+function parseLegacyState(parts: string[]): ParsedState {
+  const errors: string[] = [];
+  let tempo = DEFAULT_TEMPO;
+  let tracksPart: string | null = null;
+  let darkMode = true;
+  let ramp: TempoRamp | null = null;
+  let gap: GapPattern | null = null;
+
+  parts.forEach((part) => {
+    if (part.startsWith("t=")) {
+      tempo = clampTempo(Number(part.slice(2)) || DEFAULT_TEMPO);
+    } else if (part.startsWith("theme=")) {
+      const themeValue = part.slice("theme=".length);
+      if (themeValue === "dark") {
+        darkMode = true;
+      } else if (themeValue === "light") {
+        darkMode = false;
+      }
+    } else if (part.startsWith("tracks=")) {
+      tracksPart = part.slice("tracks=".length);
+    } else if (part.startsWith("ramp=")) {
+      ramp = parseRamp(part.slice("ramp=".length));
+      if (!ramp) errors.push("invalid ramp");
+    } else if (part.startsWith("gap=")) {
+      gap = parseGap(part.slice("gap=".length));
+      if (!gap) errors.push("invalid gap");
+    } else if (part) {
+      errors.push(`unknown setting "${part}"`);
+    }
+  });
+
+  if (!tracksPart) {
+    return finishParse(
+      {
+        tempo,
+        darkMode,
+        ramp,
+        gap,
+        arrangement: null,
+        polymeter: false,
+        accentStrength: DEFAULT_ACCENT_STRENGTH,
+        masterVolume: DEFAULT_MASTER_VOLUME,
+      },
+      null,
+      errors
+    );
+  }
+
+  const rawTracks: string = tracksPart;
+  const tracks: Track[] = [];
+  rawTracks.split("|").forEach((piece: string) => {
+    const match = piece.match(
+      /^(\d+)(v(\d+))?(m)?(d)?(g)?(f(\d+(?:\.\d+)?))?(i([a-z]))?(p([xo-]+))?$/
+    );
+    const beatsPerCycle = Number(match?.[1]);
+    const voice = match?.[10] ? VOICE_FROM_CODE[match[10]] : undefined;
+    if (!match || beatsPerCycle < 1 || (match[10] && !voice)) {
+      errors.push(`invalid track "${piece}"`);
+      return;
+    }
+    const [
+      ,
+      ,
+      ,
+      volRaw,
+      muteFlag,
+      deafFlag,
+      gapFlag,
+      ,
+      pitchRaw,
+      ,
+      ,
+      ,
+      patternRaw,
+    ] = match;
+    tracks.push(
+      makeTrack(tracks.length, {
+        beatsPerCycle,
+        volumePercent: volRaw ? Number(volRaw) : undefined,
+        muted: Boolean(muteFlag),
+        deafened: Boolean(deafFlag),
+        gapped: Boolean(gapFlag),
+        pitch: pitchRaw ? Number(pitchRaw) : undefined,
+        voice,
+        pattern: parsePatternCodes(patternRaw ?? ""),
+      })
+    );
+  });
+
+  return finishParse(
+    {
+      tempo,
+      darkMode,
+      ramp,
+      gap,
+      arrangement: null,
+      polymeter: false,
+      accentStrength: DEFAULT_ACCENT_STRENGTH,
+      masterVolume: DEFAULT_MASTER_VOLUME,
+    },
+    tracks,
+    errors
+  );
+}
+
+export function parseState(hash: string): ParsedState {
+  const raw = hash.startsWith("#") ? hash.slice(1) : hash;
+  if (!raw) return { state: DEFAULT_STATE, error: null };
+
+  const parts = raw.split(";");
+  const versionPart = parts.find((part) => part.startsWith("v="));
+  if (!versionPart) return parseLegacyState(parts);
+
+  const version = Number(versionPart.slice("v=".length));
+  if (version !== HASH_VERSION) {
+    return {
+      state: DEFAULT_STATE,
+      error: `unsupported link version "${versionPart.slice(2)}"`,
+    };
+  }
+  const payload = parts.find((part) => part.startsWith("s="));
+  if (!payload) return { state: DEFAULT_STATE, error: "link has no data" };
+  return decodeStateV2(payload.slice("s=".length));
+}
@@ -0,0 +1,117 @@
+// Click voices rendered straight to samples, so the WebAudio engine (as
+// AudioBuffers) and the HTML audio engine (as WAV) play the same sound.
+
+import { seededUnit } from "./transport";
+
+export type Voice =
+  | "beep"
+  | "woodblock"
+  | "rimshot"
+  | "cowbell"
+  | "hihat"
+  | "sample";
+
+// Voices synthesized here; "beep" stays an oscillator and "sample" is the user's file
+export type SynthVoice = Exclude<Voice, "beep" | "sample">;
+
+export const DEFAULT_VOICE: Voice = "beep";
+
+export const VOICES: { id: Voice; label: string }[] = [
+  { id: "beep", label: "Beep" },
+  { id: "woodblock", label: "Woodblock" },
+  { id: "rimshot", label: "Rimshot" },
+  { id: "cowbell", label: "Cowbell" },
+  { id: "hihat", label: "Hi-hat" },
+  { id: "sample", label: "Your sample" },
+];
+
+export const VOICE_CODES: Record<Voice, string> = {
+  beep: "b",
+  woodblock: "w",
+  rimshot: "r",
+  cowbell: "c",
+  hihat: "h",
+  sample: "s",
+};
+
+export const VOICE_FROM_CODE: Record<string, Voice> = Object.fromEntries(
+  Object.entries(VOICE_CODES).map(([voice, code]) => [code, voice as Voice])
+);
+
+// Peak level before track volume, matching the oscillator beep
+export const VOICE_PEAK = 0.5;
+export const VOICE_ACCENT_PEAK = 0.8;
+
+const VOICE_LENGTH_SEC: Record<SynthVoice, number> = {
+  woodblock: 0.12,
+  rimshot: 0.1,
+  cowbell: 0.3,
+  hihat: 0.18,
+};
+
+const NOISE_SEED = 0x420;
+
+// `frequency` is the track pitch; each voice keeps its character but shifts
+// with it so tracks sharing a voice stay apart.
+export function synthesizeVoice(
+  voice: SynthVoice,
+  frequency: number,
+  accent: boolean,
+  sampleRate: number
+) {
+  const length = Math.round(VOICE_LENGTH_SEC[voice] * sampleRate);
+  const samples = new Float32Array(length);
+  const noise = (i: number) => seededUnit(NOISE_SEED, i) * 2 - 1;
+  const tone = (freq: number, t: number) => Math.sin(2 * Math.PI * freq * t);
+  const square = (freq: number, t: number) => (tone(freq, t) >= 0 ? 1 : -1);
+  const decay = (t: number, tau: number) => Math.exp(-t / tau);
+  const ratio = frequency / 440;
+
+  let lowpassed = 0;
+  let lastNoise = 0;
+  for (let i = 0; i < length; i += 1) {
+    const t = i / sampleRate;
+    switch (voice) {
+      case "woodblock":
+        samples[i] =
+          tone(880 * ratio, t) * decay(t, accent ? 0.03 : 0.022) +
+          0.4 * tone(2376 * ratio, t) * decay(t, 0.008);
+        break;
+      case "rimshot":
+        samples[i] =
+          0.7 * tone(1700 * ratio, t) * decay(t, 0.018) +
+          0.6 * noise(i) * decay(t, accent ? 0.01 : 0.006);
+        break;
+      case "cowbell": {
+        const raw =
+          (square(587 * ratio, t) + square(845 * ratio, t)) *
+          decay(t, accent ? 0.11 : 0.08);
+        // One-pole lowpass takes the fizz off the square waves
+        lowpassed += 0.35 * (raw - lowpassed);
+        samples[i] = lowpassed;
+        break;
+      }
+      case "hihat": {
+        // First difference of noise: crude highpass
+        const white = noise(i);
+        samples[i] =
+          (white - lastNoise) *
+          decay(t, (accent ? 0.045 : 0.02) / Math.sqrt(ratio));
+        lastNoise = white;
+        break;
+      }
+    }
+  }
+
+  return normalize(samples, accent ? VOICE_ACCENT_PEAK : VOICE_PEAK);
+}
+
+function normalize(samples: Float32Array<ArrayBuffer>, peak: number) {
+  const max = samples.reduce((acc, value) => Math.max(acc, Math.abs(value)), 0);
+  if (max === 0) return samples;
+  // Short fade-in so the onset doesn't click
+  const fade = Math.min(samples.length, 32);
+  return samples.map(
+    (value, i) => (value / max) * peak * Math.min(1, (i + 1) / fade)
+  );
+}